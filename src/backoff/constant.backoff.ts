@@ -0,0 +1,12 @@
+import { type BackoffStrategy } from '../types';
+
+/**
+ * Creates a backoff strategy that waits the same amount of time before every retry.
+ *
+ * @param delay - The delay in milliseconds.
+ */
+export function constantBackoff(delay: number): BackoffStrategy {
+	return {
+		computeDelay: () => delay,
+	};
+}
@@ -0,0 +1,46 @@
+import { type BackoffStrategy } from '../types';
+
+/**
+ * Options for the {@link decorrelatedJitterBackoff} strategy.
+ */
+export interface DecorrelatedJitterBackoffOptions {
+	/**
+	 * The lower bound of every delay in milliseconds.
+	 *
+	 * @default 1000
+	 */
+	readonly baseDelay?: number;
+
+	/**
+	 * The upper bound of every delay in milliseconds.
+	 *
+	 * @default Infinity
+	 */
+	readonly maxDelay?: number;
+
+	/**
+	 * The source of randomness. Must return a number in the `[0, 1)` range.
+	 *
+	 * @default Math.random
+	 */
+	readonly random?: () => number;
+}
+
+/**
+ * Creates a backoff strategy that picks a random delay between `baseDelay` and three times the previous delay.
+ *
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export function decorrelatedJitterBackoff(options: DecorrelatedJitterBackoffOptions = {}): BackoffStrategy {
+	const baseDelay = options.baseDelay ?? 1000;
+	const maxDelay = options.maxDelay ?? Number.POSITIVE_INFINITY;
+	const random = options.random ?? Math.random;
+
+	return {
+		computeDelay(_attemptNumber, previousDelay) {
+			const upperBound = Math.max(previousDelay, baseDelay) * 3;
+
+			return Math.min(maxDelay, baseDelay + random() * (upperBound - baseDelay));
+		},
+	};
+}
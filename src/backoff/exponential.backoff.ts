@@ -0,0 +1,38 @@
+import { type BackoffStrategy } from '../types';
+
+/**
+ * Options for the {@link exponentialBackoff} strategy.
+ */
+export interface ExponentialBackoffOptions {
+	/**
+	 * The delay in milliseconds before the first retry.
+	 *
+	 * @default 1000
+	 */
+	readonly initialDelay?: number;
+
+	/**
+	 * The exponential factor to use.
+	 *
+	 * @default 2
+	 */
+	readonly factor?: number;
+}
+
+/**
+ * Creates a backoff strategy whose delay is multiplied by `factor` on every retry.
+ *
+ * @example
+ * ```js
+ * // 100ms, 300ms, 900ms, 2700ms, …
+ * exponentialBackoff({ initialDelay: 100, factor: 3 });
+ * ```
+ */
+export function exponentialBackoff(options: ExponentialBackoffOptions = {}): BackoffStrategy {
+	const initialDelay = options.initialDelay ?? 1000;
+	const factor = options.factor ?? 2;
+
+	return {
+		computeDelay: attemptNumber => initialDelay * factor ** (attemptNumber - 1),
+	};
+}
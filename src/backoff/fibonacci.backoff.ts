@@ -0,0 +1,39 @@
+import { type BackoffStrategy } from '../types';
+
+/**
+ * Options for the {@link fibonacciBackoff} strategy.
+ */
+export interface FibonacciBackoffOptions {
+	/**
+	 * The delay in milliseconds before the first retry. Every following delay is the sum of the previous two.
+	 *
+	 * @default 1000
+	 */
+	readonly initialDelay?: number;
+}
+
+/**
+ * Creates a backoff strategy whose delays follow the Fibonacci sequence.
+ *
+ * @example
+ * ```js
+ * // 100ms, 100ms, 200ms, 300ms, 500ms, 800ms, …
+ * fibonacciBackoff({ initialDelay: 100 });
+ * ```
+ */
+export function fibonacciBackoff(options: FibonacciBackoffOptions = {}): BackoffStrategy {
+	const initialDelay = options.initialDelay ?? 1000;
+
+	return {
+		computeDelay(attemptNumber) {
+			let current = 1;
+			let next = 1;
+
+			for (let i = 1; i < attemptNumber; i++) {
+				[current, next] = [next, current + next];
+			}
+
+			return initialDelay * current;
+		},
+	};
+}
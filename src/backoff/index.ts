@@ -0,0 +1,5 @@
+export * from './constant.backoff';
+export * from './linear.backoff';
+export * from './exponential.backoff';
+export * from './fibonacci.backoff';
+export * from './decorrelated-jitter.backoff';
@@ -0,0 +1,38 @@
+import { type BackoffStrategy } from '../types';
+
+/**
+ * Options for the {@link linearBackoff} strategy.
+ */
+export interface LinearBackoffOptions {
+	/**
+	 * The delay in milliseconds before the first retry.
+	 *
+	 * @default 1000
+	 */
+	readonly initialDelay?: number;
+
+	/**
+	 * The number of milliseconds added to the delay on every subsequent retry.
+	 *
+	 * @default initialDelay
+	 */
+	readonly increment?: number;
+}
+
+/**
+ * Creates a backoff strategy whose delay grows by a fixed increment on every retry.
+ *
+ * @example
+ * ```js
+ * // 1000ms, 1500ms, 2000ms, 2500ms, …
+ * linearBackoff({ initialDelay: 1000, increment: 500 });
+ * ```
+ */
+export function linearBackoff(options: LinearBackoffOptions = {}): BackoffStrategy {
+	const initialDelay = options.initialDelay ?? 1000;
+	const increment = options.increment ?? initialDelay;
+
+	return {
+		computeDelay: attemptNumber => initialDelay + increment * (attemptNumber - 1),
+	};
+}
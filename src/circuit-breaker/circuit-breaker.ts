@@ -0,0 +1,257 @@
+/**
+ * The state of a {@link CircuitBreaker}.
+ *
+ * - `closed` - attempts are let through and their outcomes are tracked.
+ * - `open` - attempts are rejected until the cool-down period passes.
+ * - `half-open` - a limited number of probe attempts are let through to check whether the dependency recovered.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for configuring a {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerOptions {
+	/**
+	 * The number of consecutive failures that opens the circuit.
+	 *
+	 * @default 5
+	 */
+	readonly failureThreshold?: number;
+
+	/**
+	 * The failure rate, between 0 and 1, within the last `windowSize` attempts that opens the circuit.
+	 *
+	 * Disabled by default.
+	 */
+	readonly failureRateThreshold?: number;
+
+	/**
+	 * The number of most recent attempts the failure rate is calculated over.
+	 *
+	 * @default 20
+	 */
+	readonly windowSize?: number;
+
+	/**
+	 * The minimum number of attempts in the window before the failure rate is taken into account.
+	 *
+	 * @default 10
+	 */
+	readonly minimumAttempts?: number;
+
+	/**
+	 * The time in milliseconds the circuit stays open before letting probe attempts through.
+	 *
+	 * @default 30000
+	 */
+	readonly cooldown?: number;
+
+	/**
+	 * The maximum number of concurrent probe attempts let through in the half-open state.
+	 *
+	 * @default 1
+	 */
+	readonly halfOpenMaxProbes?: number;
+}
+
+/**
+ * An event emitted when a {@link CircuitBreaker} changes its state.
+ */
+export interface CircuitStateChangeEvent {
+	readonly from: CircuitState;
+	readonly to: CircuitState;
+}
+
+/**
+ * A circuit breaker that stops calling a failing dependency for a cool-down period.
+ *
+ * A single instance can be shared by any number of `pRetry` calls and `makeRetriable` wrappers that call the same
+ * backend, so that they all fail fast with a {@link CircuitOpenError} while the circuit is open.
+ *
+ * @example
+ * ```js
+ * import { CircuitBreaker, makeRetriable } from '@stimulcross/p-retry';
+ *
+ * const breaker = new CircuitBreaker({ failureThreshold: 5, cooldown: 10_000 });
+ * breaker.onStateChange(({ from, to }) => console.log(`Circuit ${from} → ${to}`));
+ *
+ * const getUser = makeRetriable(fetchUser, { retries: 3, circuitBreaker: breaker });
+ * const getOrders = makeRetriable(fetchOrders, { retries: 3, circuitBreaker: breaker });
+ * ```
+ */
+export class CircuitBreaker {
+	private readonly _failureThreshold: number;
+	private readonly _failureRateThreshold: number;
+	private readonly _windowSize: number;
+	private readonly _minimumAttempts: number;
+	private readonly _cooldown: number;
+	private readonly _halfOpenMaxProbes: number;
+	private readonly _listeners = new Set<(event: CircuitStateChangeEvent) => void>();
+
+	private _state: CircuitState = 'closed';
+	private _outcomes: boolean[] = [];
+	private _consecutiveFailures = 0;
+	private _openedAt = 0;
+	private _activeProbes = 0;
+
+	constructor(options: CircuitBreakerOptions = {}) {
+		this._failureThreshold = options.failureThreshold ?? 5;
+		this._failureRateThreshold = options.failureRateThreshold ?? Number.POSITIVE_INFINITY;
+		this._windowSize = options.windowSize ?? 20;
+		this._minimumAttempts = options.minimumAttempts ?? 10;
+		this._cooldown = options.cooldown ?? 30_000;
+		this._halfOpenMaxProbes = options.halfOpenMaxProbes ?? 1;
+	}
+
+	/**
+	 * The current state of the circuit.
+	 */
+	public get state(): CircuitState {
+		this._refreshState();
+
+		return this._state;
+	}
+
+	/**
+	 * The time in milliseconds until the open circuit lets probe attempts through, or `0` if it is not open.
+	 */
+	public get remainingCooldown(): number {
+		return this.state === 'open' ? Math.max(this._openedAt + this._cooldown - Date.now(), 0) : 0;
+	}
+
+	/**
+	 * Checks whether an attempt may be made and, in the half-open state, reserves a probe slot for it.
+	 *
+	 * Every successful call must be followed by {@link recordSuccess}, {@link recordFailure} or {@link release}.
+	 */
+	public tryAcquire(): boolean {
+		switch (this.state) {
+			case 'closed': {
+				return true;
+			}
+
+			case 'half-open': {
+				if (this._activeProbes >= this._halfOpenMaxProbes) {
+					return false;
+				}
+
+				this._activeProbes++;
+				return true;
+			}
+
+			default: {
+				return false;
+			}
+		}
+	}
+
+	/**
+	 * Records a successful attempt. A successful probe closes the circuit.
+	 */
+	public recordSuccess(): void {
+		if (this._state === 'half-open') {
+			this._transition('closed');
+			return;
+		}
+
+		if (this._state === 'closed') {
+			this._consecutiveFailures = 0;
+			this._pushOutcome(true);
+		}
+	}
+
+	/**
+	 * Records a failed attempt. A failed probe, or reaching one of the thresholds, opens the circuit.
+	 */
+	public recordFailure(): void {
+		if (this._state === 'half-open') {
+			this._transition('open');
+			return;
+		}
+
+		if (this._state !== 'closed') {
+			return;
+		}
+
+		this._consecutiveFailures++;
+		this._pushOutcome(false);
+
+		const failures = this._outcomes.filter(isSuccess => !isSuccess).length;
+		const hasEnoughAttempts = this._outcomes.length >= this._minimumAttempts;
+
+		if (
+			this._consecutiveFailures >= this._failureThreshold ||
+			(hasEnoughAttempts && failures / this._outcomes.length >= this._failureRateThreshold)
+		) {
+			this._transition('open');
+		}
+	}
+
+	/**
+	 * Releases a probe slot reserved by {@link tryAcquire} without recording an outcome, for example, when the
+	 * attempt was aborted.
+	 */
+	public release(): void {
+		if (this._state === 'half-open' && this._activeProbes > 0) {
+			this._activeProbes--;
+		}
+	}
+
+	/**
+	 * Closes the circuit and clears all tracked outcomes.
+	 */
+	public reset(): void {
+		this._transition('closed');
+	}
+
+	/**
+	 * Subscribes to state changes.
+	 *
+	 * @param listener - Called with the previous and the new state on every state change.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	public onStateChange(listener: (event: CircuitStateChangeEvent) => void): () => void {
+		this._listeners.add(listener);
+
+		return () => this._listeners.delete(listener);
+	}
+
+	private _refreshState(): void {
+		if (this._state === 'open' && Date.now() - this._openedAt >= this._cooldown) {
+			this._transition('half-open');
+		}
+	}
+
+	private _pushOutcome(isSuccess: boolean): void {
+		this._outcomes.push(isSuccess);
+
+		if (this._outcomes.length > this._windowSize) {
+			this._outcomes.shift();
+		}
+	}
+
+	private _transition(to: CircuitState): void {
+		const from = this._state;
+
+		this._state = to;
+		this._activeProbes = 0;
+
+		if (to === 'open') {
+			this._openedAt = Date.now();
+		}
+
+		if (to === 'closed') {
+			this._outcomes = [];
+			this._consecutiveFailures = 0;
+		}
+
+		if (from === to) {
+			return;
+		}
+
+		for (const listener of this._listeners) {
+			listener({ from, to });
+		}
+	}
+}
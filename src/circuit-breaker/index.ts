@@ -0,0 +1 @@
+export * from './circuit-breaker';
@@ -0,0 +1,52 @@
+import { makeRetriable } from '../make-retriable';
+import { type RetryPolicy } from '../retry-policy';
+import { type Options } from '../types';
+
+/**
+ * Options for the {@link Retriable} decorator: plain options, a `RetryPolicy`, or a function resolving either of them
+ * from the instance and the call arguments at call time.
+ */
+export type RetriableMethodOptions<This = unknown, Args extends readonly unknown[] = readonly unknown[]> =
+	Options | RetryPolicy | ((instance: This, args: Args) => Options | RetryPolicy);
+
+/**
+ * A method decorator that retries every call of the method on failure. Uses TypeScript 5 standard decorators.
+ *
+ * The method is called with the same `this`, and the options may be resolved from the instance at call time, for
+ * example, from injected configuration. Both sync and async methods can be decorated. As the decorated method always
+ * returns a `Promise`, the return type of a sync method must include it, for example, `number | Promise<number>`.
+ *
+ * @param options - Options for configuring the retry behavior, a {@link RetryPolicy}, or a function resolving them
+ * from the instance and the call arguments.
+ *
+ * @example
+ * ```ts
+ * import { Retriable } from '@stimulcross/p-retry';
+ *
+ * class UserService {
+ * 	constructor(private readonly _config: { retry: Options }) {}
+ *
+ * 	@Retriable({ retries: 3 })
+ * 	public async getUser(id: string): Promise<User> {
+ * 		return await this._api.get(`/users/${id}`);
+ * 	}
+ *
+ * 	@Retriable((service: UserService) => service._config.retry)
+ * 	public async updateUser(user: User): Promise<void> {
+ * 		await this._api.put(`/users/${user.id}`, user);
+ * 	}
+ * }
+ * ```
+ */
+export function Retriable<This, Args extends readonly unknown[], Res>(
+	options: RetriableMethodOptions<This, Args> = {},
+): (
+	method: (this: This, ...args: Args) => Res | PromiseLike<Res>,
+	context: ClassMethodDecoratorContext<This>,
+) => (this: This, ...args: Args) => Promise<Res> {
+	function resolveOptions(this: This, ...args: Args): Options | RetryPolicy {
+		return typeof options === 'function' ? options(this, args) : options;
+	}
+
+	return method => makeRetriable(method, resolveOptions);
+}
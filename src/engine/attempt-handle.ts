@@ -0,0 +1,70 @@
+import { type AttemptContext } from '../types';
+
+/**
+ * A single attempt started by the {@link RetryEngine}.
+ *
+ * Owns the per-attempt `AbortController`, which is aborted when the outer signal is aborted or the attempt times out.
+ *
+ * @internal
+ */
+export class AttemptHandle {
+	public readonly context: AttemptContext;
+	public readonly startTime: number;
+
+	private readonly _controller = new AbortController();
+	private readonly _signal?: AbortSignal;
+	private readonly _abortHandler = () => this._controller.abort(this._signal?.reason);
+	private _timeoutToken?: ReturnType<typeof setTimeout>;
+	private _timeoutPromise?: Promise<never>;
+
+	constructor(attemptNumber: number, retriesLeft: number, startTime: number, signal?: AbortSignal) {
+		this.startTime = startTime;
+		this._signal = signal;
+		this._signal?.addEventListener('abort', this._abortHandler, { once: true });
+
+		this.context = Object.freeze({ attemptNumber, retriesLeft, signal: this._controller.signal });
+	}
+
+	/**
+	 * Aborts the attempt signal with the error produced by `createTimeoutError` once the timeout passes.
+	 */
+	public startTimeout(timeout: number, createTimeoutError: () => Error, unref: boolean): void {
+		if (!Number.isFinite(timeout)) {
+			return;
+		}
+
+		this._timeoutPromise = new Promise<never>((_resolve, reject) => {
+			this._timeoutToken = setTimeout(() => {
+				const error = createTimeoutError();
+				this._controller.abort(error);
+				reject(error);
+			}, timeout);
+
+			if (unref) {
+				this._timeoutToken.unref?.();
+			}
+		});
+
+		// Nobody may be racing the timeout, for example, when the attempt is driven by `retrying`
+		this._timeoutPromise.catch(() => {});
+	}
+
+	/**
+	 * Resolves with the value, or rejects with the timeout error if the attempt times out first.
+	 */
+	public async race<T>(value: T | PromiseLike<T>): Promise<T> {
+		return this._timeoutPromise ? await Promise.race([value, this._timeoutPromise]) : await value;
+	}
+
+	/**
+	 * Aborts the attempt signal with the given reason, for example, when a parallel attempt has already succeeded.
+	 */
+	public abort(reason: Error): void {
+		this._controller.abort(reason);
+	}
+
+	public dispose(): void {
+		clearTimeout(this._timeoutToken);
+		this._signal?.removeEventListener('abort', this._abortHandler);
+	}
+}
@@ -0,0 +1,134 @@
+import { type AttemptHandle } from './attempt-handle';
+import { recoverLastResult, runAttempt } from './execute';
+import { type RetryEngine } from './retry-engine';
+import { AbortError } from '../errors';
+import { type InputFunction } from '../types';
+import { sleep } from '../utils';
+
+interface HedgedSuccess<T> {
+	readonly attempt: AttemptHandle;
+	readonly isSuccess: true;
+	readonly value: T;
+}
+
+interface HedgedFailure {
+	readonly attempt: AttemptHandle;
+	readonly isSuccess: false;
+	readonly error: unknown;
+}
+
+type HedgedOutcome<T> = HedgedSuccess<T> | HedgedFailure;
+
+/**
+ * Runs `input` under the engine like {@link execute}, but starts another attempt in parallel whenever the running
+ * ones have not settled within `hedgeDelay`, up to `maxHedges` extra attempts.
+ *
+ * The first successful attempt wins and the others are aborted. A failed attempt only leads to a retry, with the usual
+ * delay, once no other attempt is running. A hedge the circuit breaker does not let through is skipped.
+ *
+ * @internal
+ */
+export async function executeHedged<T>(engine: RetryEngine, input: InputFunction<T>): Promise<T> {
+	const { hedgeDelay, maxHedges, retries, maxRetryTime, scheduler } = engine.options;
+	const pending = new Map<AttemptHandle, Promise<HedgedOutcome<T>>>();
+	let lastStartTime = 0;
+
+	const startAttempt = async (isHedge: boolean): Promise<void> => {
+		const attempt = isHedge ? await engine.startHedge() : await engine.startAttempt();
+
+		lastStartTime = scheduler.now();
+
+		// A skipped hedge is tried again after another `hedgeDelay`, while the running attempts keep going
+		if (attempt === undefined) {
+			return;
+		}
+
+		pending.set(
+			attempt,
+			runAttempt(engine, attempt, input).then(
+				(value): HedgedOutcome<T> => ({ attempt, isSuccess: true, value }),
+				(e: unknown): HedgedOutcome<T> => ({ attempt, isSuccess: false, error: e }),
+			),
+		);
+	};
+
+	// Hedges must not exceed the attempts and the time the operation is allowed to take
+	const canHedge = () =>
+		pending.size <= maxHedges && engine.attemptNumber < retries + 1 && engine.elapsedTime < maxRetryTime;
+
+	// Resolves with the outcome of the first attempt to settle, or `undefined` when it is time to start a hedge
+	const nextOutcome = async (): Promise<HedgedOutcome<T> | undefined> => {
+		if (!canHedge()) {
+			return await Promise.race(pending.values());
+		}
+
+		const hedgeController = new AbortController();
+		// Measured with the same clock as `maxRetryTime`, while the wait itself uses a real timer like `attemptTimeout`
+		const remainingDelay = hedgeDelay - (scheduler.now() - lastStartTime);
+		const hedgeTimer = sleep(remainingDelay, hedgeController.signal, engine.options.unref).then(
+			() => undefined,
+			() => undefined,
+		);
+
+		try {
+			return await Promise.race([...pending.values(), hedgeTimer]);
+		} finally {
+			hedgeController.abort();
+		}
+	};
+
+	const abortPending = (reason: Error): void => {
+		for (const attempt of pending.keys()) {
+			attempt.abort(reason);
+			attempt.dispose();
+			engine.releaseAttempt();
+		}
+
+		pending.clear();
+	};
+
+	try {
+		await startAttempt(false);
+
+		for (;;) {
+			const outcome = await nextOutcome();
+
+			if (outcome === undefined) {
+				if (canHedge()) {
+					await startAttempt(true);
+				}
+
+				continue;
+			}
+
+			const { attempt } = outcome;
+
+			pending.delete(attempt);
+			attempt.dispose();
+
+			if (outcome.isSuccess) {
+				abortPending(new AbortError('A parallel attempt has already succeeded.'));
+				await engine.completeAttempt(attempt);
+
+				return outcome.value;
+			}
+
+			try {
+				if (pending.size > 0) {
+					await engine.recordPendingFailure(attempt, outcome.error);
+					continue;
+				}
+
+				await engine.failAttempt(attempt, outcome.error);
+			} catch (e) {
+				abortPending(e as Error);
+				return recoverLastResult(engine, outcome.error, e);
+			}
+
+			await startAttempt(false);
+		}
+	} catch (e) {
+		abortPending(e as Error);
+		throw e;
+	}
+}
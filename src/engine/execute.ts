@@ -0,0 +1,99 @@
+import { type AttemptHandle } from './attempt-handle';
+import { type RetryEngine } from './retry-engine';
+import { UnacceptableResultError } from '../errors';
+import { type GiveUpReason, type InputFunction } from '../types';
+import { getGiveUpReason } from '../utils';
+
+// Only running out of retries, time or approval yields the last result, aborts and thrown hooks still reject
+const recoverableReasons: ReadonlySet<GiveUpReason | undefined> = new Set<GiveUpReason>([
+	'retries-exhausted',
+	'max-retry-time',
+	'should-retry',
+	'retry-budget-exhausted',
+]);
+
+/**
+ * Calls `input` for the attempt, rejecting with an `UnacceptableResultError` if `retryOnResult` rejects the result.
+ *
+ * @internal
+ */
+export async function runAttempt<T>(engine: RetryEngine, attempt: AttemptHandle, input: InputFunction<T>): Promise<T> {
+	const { retryOnResult } = engine.options;
+	const { attemptNumber } = attempt.context;
+
+	const result = await attempt.race(input(attemptNumber, attempt.context));
+
+	if (retryOnResult && (await attempt.race(retryOnResult(result, attempt.context)))) {
+		throw new UnacceptableResultError(result, attemptNumber);
+	}
+
+	return result;
+}
+
+/**
+ * Resolves with the last unacceptable result if `returnLastResult` is enabled and the operation gave up retrying it,
+ * otherwise rethrows the final error.
+ *
+ * @internal
+ */
+export function recoverLastResult<T>(engine: RetryEngine, lastError: unknown, finalError: unknown): T {
+	if (
+		engine.options.returnLastResult &&
+		lastError instanceof UnacceptableResultError &&
+		recoverableReasons.has(getGiveUpReason(finalError))
+	) {
+		return lastError.result as T;
+	}
+
+	throw finalError;
+}
+
+/**
+ * Runs `input` under the engine until it succeeds or the engine gives up, applying `retryOnResult` and
+ * `returnLastResult`.
+ *
+ * `acquireSlot` is awaited before every attempt, and the slot it returns is released as soon as the attempt settles,
+ * so that the delays between attempts do not hold a slot.
+ *
+ * @internal
+ */
+export async function execute<T>(
+	engine: RetryEngine,
+	input: InputFunction<T>,
+	acquireSlot?: () => Promise<() => void>,
+): Promise<T> {
+	for (;;) {
+		const releaseSlot = (await acquireSlot?.()) ?? (() => {});
+		let attempt: AttemptHandle;
+
+		try {
+			attempt = await engine.startAttempt();
+		} catch (e) {
+			releaseSlot();
+			throw e;
+		}
+
+		let result: T;
+
+		try {
+			result = await runAttempt(engine, attempt, input);
+		} catch (e) {
+			attempt.dispose();
+			releaseSlot();
+
+			try {
+				await engine.failAttempt(attempt, e);
+			} catch (e_) {
+				return recoverLastResult(engine, e, e_);
+			}
+
+			continue;
+		}
+
+		attempt.dispose();
+		releaseSlot();
+		await engine.completeAttempt(attempt);
+
+		return result;
+	}
+}
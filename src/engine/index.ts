@@ -0,0 +1,4 @@
+export * from './attempt-handle';
+export * from './retry-engine';
+export * from './execute';
+export * from './execute-hedged';
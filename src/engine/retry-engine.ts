@@ -0,0 +1,411 @@
+import { AttemptHandle } from './attempt-handle';
+import { AbortError, AttemptTimeoutError, CircuitOpenError, RetryError, RetryTimeoutError } from '../errors';
+import { RetryPolicy } from '../retry-policy';
+import { type AttemptRecord, type GiveUpReason, type Options, type RetryContext } from '../types';
+import {
+	calculateDelay,
+	createRetryContext,
+	getFatalReason,
+	markGiveUpReason,
+	normalizeRetryAfter,
+	resolveOptions,
+	toError,
+	validateOptions,
+} from '../utils';
+
+// Bounds the error history kept for the retry context, so that endless retrying does not grow memory without limit
+const maxPreviousErrors = 100;
+
+/**
+ * The retry loop shared by `pRetry` and `retrying`.
+ *
+ * Every attempt is started with {@link startAttempt} and settled with either {@link failAttempt}, which waits out the
+ * delay before the next attempt, or {@link completeAttempt}. Whenever the operation gives up, these methods reject
+ * with the error the operation must reject with. Hedged execution starts attempts that run in parallel with
+ * {@link startHedge} and settles them with {@link recordPendingFailure} and {@link scheduleRetry} instead.
+ *
+ * @internal
+ */
+export class RetryEngine {
+	private readonly _options: ReturnType<typeof resolveOptions>;
+	private readonly _attempts: AttemptRecord[] = [];
+	private readonly _previousErrors: Error[] = [];
+	private readonly _startTime: number;
+	private _attemptNumber = 0;
+	private _previousDelay = 0;
+	private _lastError?: Error;
+	private _lastContext?: RetryContext;
+
+	constructor(optionsOrPolicy: Options | RetryPolicy) {
+		// Policies are validated once when they are created
+		const options = optionsOrPolicy instanceof RetryPolicy ? optionsOrPolicy.options : optionsOrPolicy;
+
+		if (!(optionsOrPolicy instanceof RetryPolicy)) {
+			validateOptions(options);
+		}
+
+		this._options = resolveOptions(options);
+		this._startTime = this._options.scheduler.now();
+	}
+
+	/**
+	 * The options with their defaults applied.
+	 */
+	public get options(): ReturnType<typeof resolveOptions> {
+		return this._options;
+	}
+
+	/**
+	 * The number of attempts started so far.
+	 */
+	public get attemptNumber(): number {
+		return this._attemptNumber;
+	}
+
+	/**
+	 * The time elapsed since the operation started.
+	 */
+	public get elapsedTime(): number {
+		return this._options.scheduler.now() - this._startTime;
+	}
+
+	/**
+	 * The retry context of the last failed attempt, if any.
+	 */
+	public get lastContext(): RetryContext | undefined {
+		return this._lastContext;
+	}
+
+	/**
+	 * Starts the next attempt and calls the `onAttemptStart` hook.
+	 *
+	 * Rejects with the final error if the operation gives up before the attempt starts.
+	 */
+	public async startAttempt(): Promise<AttemptHandle> {
+		const { circuitBreaker } = this._options;
+		const deadlineTimeout = await this._checkCanStart();
+
+		if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+			throw await this._giveUp(
+				new CircuitOpenError(circuitBreaker.remainingCooldown, { cause: this._lastError }),
+				'circuit-open',
+			);
+		}
+
+		return await this._beginAttempt(deadlineTimeout);
+	}
+
+	/**
+	 * Starts an attempt in parallel with the running ones like {@link startAttempt}, but resolves with `undefined`
+	 * instead of giving up if the circuit breaker does not let another attempt through.
+	 */
+	public async startHedge(): Promise<AttemptHandle | undefined> {
+		const { circuitBreaker } = this._options;
+		const deadlineTimeout = await this._checkCanStart();
+
+		// The running attempts may still succeed, so a hedge is only skipped
+		if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+			return undefined;
+		}
+
+		return await this._beginAttempt(deadlineTimeout);
+	}
+
+	/**
+	 * Records the failure of the attempt and waits out the delay before the next one.
+	 *
+	 * Rejects with the final error if the operation gives up.
+	 */
+	public async failAttempt(attempt: AttemptHandle, e: unknown): Promise<void> {
+		await this.waitForRetry(await this.scheduleRetry(attempt, e));
+	}
+
+	/**
+	 * Records the failure of the attempt and decides whether to retry, without waiting.
+	 *
+	 * Resolves with the delay before the next attempt, or rejects with the final error if the operation gives up.
+	 */
+	public async scheduleRetry(attempt: AttemptHandle, e: unknown): Promise<number> {
+		const { retryBudget, scheduler, maxRetryTime } = this._options;
+		const { error, isFatal, retryAfter, baseContext } = await this._recordFailure(attempt, e);
+
+		let delay = 0;
+
+		if (this._attemptNumber < this._options.retries + 1) {
+			// Calculate delay before next attempt, preferring the server-provided hint
+			delay =
+				retryAfter === undefined
+					? calculateDelay(this._attemptNumber, this._previousDelay, baseContext, this._options)
+					: Math.min(retryAfter, this._options.maxTimeout);
+
+			delay = Math.min(delay, baseContext.remainingTime);
+		}
+
+		const context: RetryContext = Object.freeze({ ...baseContext, delay });
+		this._lastContext = context;
+
+		// Always call onFailedAttempt
+		await this._callHook(() => this._options.onFailedAttempt(context));
+
+		const currentTime = scheduler.now();
+
+		if (currentTime - this._startTime >= maxRetryTime) {
+			throw await this._giveUp(
+				this._options.strictMaxRetryTime ? this._createRetryTimeoutError(error) : error,
+				'max-retry-time',
+			);
+		}
+
+		if (this._attemptNumber >= this._options.retries + 1) {
+			throw await this._giveUp(error, 'retries-exhausted');
+		}
+
+		if (!(await this._callHook(() => this._options.shouldRetry(context)))) {
+			throw await this._giveUp(error, isFatal ? 'non-retryable' : 'should-retry');
+		}
+
+		if (retryBudget && !retryBudget.tryWithdraw()) {
+			throw await this._giveUp(error, 'retry-budget-exhausted');
+		}
+
+		// Ensure that delay does not exceed maxRetryTime
+		const timeLeft = maxRetryTime - (currentTime - this._startTime);
+
+		/* istanbul ignore if */
+		if (timeLeft <= 0) {
+			throw await this._giveUp(error, 'max-retry-time');
+		}
+
+		const finalDelay = Math.min(delay, timeLeft);
+		this._previousDelay = finalDelay;
+
+		await this._callHook(() => this._options.onRetryScheduled(context, finalDelay));
+
+		return finalDelay;
+	}
+
+	/**
+	 * Records the failure of an attempt while other attempts are still running, so the decision whether to retry is
+	 * left to the last of them. Only a fatal error makes the operation give up right away.
+	 */
+	public async recordPendingFailure(attempt: AttemptHandle, e: unknown): Promise<void> {
+		const { baseContext } = await this._recordFailure(attempt, e);
+		const context: RetryContext = Object.freeze({ ...baseContext, delay: 0 });
+
+		this._lastContext = context;
+
+		await this._callHook(() => this._options.onFailedAttempt(context));
+	}
+
+	/**
+	 * Waits out the delay before the next attempt.
+	 *
+	 * Rejects with an `AbortError` if the signal is aborted in the meantime.
+	 */
+	public async waitForRetry(delay: number): Promise<void> {
+		try {
+			await this._options.scheduler.sleep(delay, this._options.signal);
+		} catch (e) {
+			throw await this._giveUp(e as AbortError, 'aborted');
+		}
+	}
+
+	/**
+	 * Records the success of the attempt and calls the `onSuccess` hook.
+	 *
+	 * Rejects with an `AbortError` if the signal was aborted in the meantime.
+	 */
+	public async completeAttempt(attempt: AttemptHandle): Promise<void> {
+		const { circuitBreaker, retryBudget, signal, scheduler } = this._options;
+
+		circuitBreaker?.recordSuccess();
+		retryBudget?.recordSuccess();
+
+		if (signal?.aborted) {
+			throw await this._giveUp(AbortError.fromSignal(signal), 'aborted');
+		}
+
+		await this._options.onSuccess({
+			attemptNumber: attempt.context.attemptNumber,
+			duration: scheduler.now() - this._startTime,
+		});
+	}
+
+	/**
+	 * Releases an attempt without recording an outcome, for example, when the caller stops iterating or a parallel
+	 * attempt has already succeeded.
+	 */
+	public releaseAttempt(): void {
+		this._options.circuitBreaker?.release();
+	}
+
+	// Gives up if the operation was aborted or the strict deadline passed, otherwise resolves with the time left to it
+	private async _checkCanStart(): Promise<number> {
+		const { signal, scheduler, maxRetryTime } = this._options;
+
+		if (signal?.aborted) {
+			throw await this._giveUp(AbortError.fromSignal(signal), 'aborted');
+		}
+
+		// In strict mode the attempt is interrupted once the overall deadline passes
+		const deadlineTimeout = this._options.strictMaxRetryTime
+			? maxRetryTime - (scheduler.now() - this._startTime)
+			: Number.POSITIVE_INFINITY;
+
+		if (deadlineTimeout <= 0) {
+			throw await this._giveUp(this._createRetryTimeoutError(this._lastError), 'max-retry-time');
+		}
+
+		return deadlineTimeout;
+	}
+
+	// Counts the attempt the circuit breaker has let through and calls the `onAttemptStart` hook
+	private async _beginAttempt(deadlineTimeout: number): Promise<AttemptHandle> {
+		const { signal, circuitBreaker, scheduler, retries, attemptTimeout } = this._options;
+
+		// Only attempts that are actually made are counted
+		const attemptNumber = ++this._attemptNumber;
+		const attempt = new AttemptHandle(attemptNumber, retries - (attemptNumber - 1), scheduler.now(), signal);
+
+		try {
+			await this._options.onAttemptStart?.(attempt.context);
+		} catch (e) {
+			// The attempt never reached the dependency, so the circuit must not count it
+			attempt.dispose();
+			circuitBreaker?.release();
+
+			throw await this._giveUp(toError(e), 'hook-error');
+		}
+
+		if (deadlineTimeout < attemptTimeout) {
+			attempt.startTimeout(
+				deadlineTimeout,
+				() => this._createRetryTimeoutError(this._lastError),
+				this._options.unref,
+			);
+		} else {
+			attempt.startTimeout(
+				attemptTimeout,
+				() => new AttemptTimeoutError(attemptNumber, attemptTimeout),
+				this._options.unref,
+			);
+		}
+
+		return attempt;
+	}
+
+	// Shared bookkeeping of a failed attempt; gives up right away on fatal errors
+	private async _recordFailure(
+		attempt: AttemptHandle,
+		e: unknown,
+	): Promise<{
+		error: Error;
+		isFatal: boolean;
+		retryAfter?: number;
+		baseContext: Omit<RetryContext, 'delay'>;
+	}> {
+		const { circuitBreaker, scheduler, maxRetryTime, signal } = this._options;
+		const { attemptNumber } = attempt.context;
+
+		// The attempt most likely failed because the caller aborted it, which says nothing about the dependency
+		if (signal?.aborted) {
+			circuitBreaker?.release();
+			throw await this._giveUp(AbortError.fromSignal(signal), 'aborted');
+		}
+
+		if (e instanceof AbortError) {
+			circuitBreaker?.release();
+		} else {
+			circuitBreaker?.recordFailure();
+		}
+
+		const error = toError(e);
+
+		// The records are only used by `aggregateErrors`, long polls would keep every polled value otherwise
+		if (this._options.aggregateErrors) {
+			this._attempts.push(
+				Object.freeze({
+					attemptNumber,
+					error,
+					startTime: attempt.startTime,
+					duration: scheduler.now() - attempt.startTime,
+				}),
+			);
+		}
+
+		const fatalReason = getFatalReason(e, this._options);
+		const isFatal = fatalReason !== undefined;
+
+		// Only errors classified as non-retryable may be passed to shouldRetry
+		if (fatalReason && !(fatalReason === 'non-retryable' && this._options.shouldRetryFatalErrors)) {
+			throw await this._giveUp(error, fatalReason);
+		}
+
+		this._lastError = error;
+
+		const retryAfter = normalizeRetryAfter(
+			this._options.retryAfter?.(error, attemptNumber) ?? (error as { retryAfter?: unknown }).retryAfter,
+			scheduler.now(),
+		);
+
+		const baseContext = createRetryContext({
+			error,
+			isFatal,
+			attemptNumber,
+			attemptsStarted: this._attemptNumber,
+			retries: this._options.retries,
+			retryAfter,
+			startTime: this._startTime,
+			attemptStartTime: attempt.startTime,
+			maxRetryTime,
+			previousErrors: this._previousErrors,
+			now: scheduler.now(),
+		});
+
+		this._previousErrors.push(error);
+
+		if (this._previousErrors.length > maxPreviousErrors) {
+			this._previousErrors.shift();
+		}
+
+		return { error, isFatal, retryAfter, baseContext };
+	}
+
+	// Errors thrown by hooks reject the operation as is, but still count as giving up
+	private async _callHook<T>(hook: () => T | Promise<T>): Promise<T> {
+		try {
+			return await hook();
+		} catch (e) {
+			throw await this._giveUp(toError(e), 'hook-error');
+		}
+	}
+
+	private _createRetryTimeoutError(cause?: Error): RetryTimeoutError {
+		return new RetryTimeoutError({
+			attemptNumber: this._attemptNumber,
+			elapsedTime: this._options.scheduler.now() - this._startTime,
+			maxRetryTime: this._options.maxRetryTime,
+			cause,
+		});
+	}
+
+	// Annotates the error with the reason and notifies the hooks before the operation rejects
+	private async _giveUp(finalError: Error, reason: GiveUpReason): Promise<Error> {
+		const attemptNumber = this._attemptNumber;
+		const duration = this._options.scheduler.now() - this._startTime;
+		const error =
+			this._options.aggregateErrors && reason !== 'aborted' && reason !== 'hook-error'
+				? new RetryError({ attempts: this._attempts, reason, elapsedTime: duration, cause: finalError })
+				: finalError;
+
+		markGiveUpReason(error, reason);
+
+		if (error instanceof AbortError) {
+			await this._options.onAbort({ error, attemptNumber, duration });
+		}
+
+		await this._options.onGiveUp({ reason, error, attemptNumber, duration });
+
+		return error;
+	}
+}
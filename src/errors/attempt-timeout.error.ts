@@ -0,0 +1,35 @@
+/**
+ * An error used to signal that a single attempt did not settle within the `attemptTimeout`.
+ *
+ * Unlike {@link AbortError}, it does not stop retrying: the timed-out attempt is treated as a regular failure
+ * and is passed to `onFailedAttempt` and `shouldRetry`.
+ *
+ * @param attemptNumber - The number of the attempt that timed out.
+ * @param timeout - The timeout in milliseconds that was exceeded.
+ */
+export class AttemptTimeoutError extends Error {
+	/**
+	 * The number of the attempt that timed out.
+	 */
+	public readonly attemptNumber: number;
+
+	/**
+	 * The timeout in milliseconds that was exceeded.
+	 */
+	public readonly timeout: number;
+
+	/** @internal */
+	constructor(attemptNumber: number, timeout: number, options?: ErrorOptions) {
+		super(`Attempt ${attemptNumber} timed out after ${timeout}ms`, options);
+
+		this.name = new.target.name;
+		this.attemptNumber = attemptNumber;
+		this.timeout = timeout;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
@@ -0,0 +1,28 @@
+/**
+ * An error used to signal that an attempt was rejected without being made because the circuit breaker is open.
+ *
+ * Like {@link AbortError}, it stops retrying immediately.
+ *
+ * @param remainingCooldown - The time in milliseconds until the circuit breaker lets probe attempts through.
+ * @param options - Optional {@link ErrorOptions}, such as `cause`.
+ */
+export class CircuitOpenError extends Error {
+	/**
+	 * The time in milliseconds until the circuit breaker lets probe attempts through.
+	 */
+	public readonly remainingCooldown: number;
+
+	/** @internal */
+	constructor(remainingCooldown: number, options?: ErrorOptions) {
+		super('Circuit breaker is open', options);
+
+		this.name = new.target.name;
+		this.remainingCooldown = remainingCooldown;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
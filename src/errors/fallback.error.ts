@@ -0,0 +1,71 @@
+/**
+ * Additional options for customizing a {@link FallbackError}.
+ */
+export interface FallbackErrorOptions {
+	/**
+	 * The errors of the sources that were tried, in order.
+	 */
+	readonly errors: readonly Error[];
+
+	/**
+	 * The number of sources in the chain, including the ones not tried.
+	 */
+	readonly sourceCount: number;
+
+	/**
+	 * The time in milliseconds elapsed since the chain started.
+	 */
+	readonly elapsedTime: number;
+
+	/**
+	 * Whether the `timeout` of the chain passed.
+	 */
+	readonly isTimedOut: boolean;
+}
+
+/**
+ * An aggregate error `pRetryWithFallback` rejects with when no source succeeds.
+ *
+ * Holds the error each tried source rejected with in `errors`, in order. The error of the last tried source is
+ * available as `cause`.
+ *
+ * @param options - {@link FallbackErrorOptions} describing the failed chain.
+ */
+export class FallbackError extends AggregateError {
+	/**
+	 * The number of sources in the chain, including the ones not tried.
+	 */
+	public readonly sourceCount: number;
+
+	/**
+	 * The time in milliseconds elapsed since the chain started.
+	 */
+	public readonly elapsedTime: number;
+
+	/**
+	 * Whether the `timeout` of the chain passed.
+	 */
+	public readonly isTimedOut: boolean;
+
+	/** @internal */
+	constructor(options: FallbackErrorOptions) {
+		const cause = options.errors[options.errors.length - 1];
+
+		super(
+			options.errors,
+			`${options.isTimedOut ? 'Timed out' : 'Failed'} after trying ${options.errors.length} of ${options.sourceCount} source(s)${cause ? `: ${cause.message}` : ''}`,
+			{ cause },
+		);
+
+		this.name = new.target.name;
+		this.sourceCount = options.sourceCount;
+		this.elapsedTime = options.elapsedTime;
+		this.isTimedOut = options.isTimedOut;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
@@ -1 +1,8 @@
 export * from './abort.error';
+export * from './attempt-timeout.error';
+export * from './retry-timeout.error';
+export * from './circuit-open.error';
+export * from './retry.error';
+export * from './unacceptable-result.error';
+export * from './poll-timeout.error';
+export * from './fallback.error';
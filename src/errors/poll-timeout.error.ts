@@ -0,0 +1,57 @@
+/**
+ * Additional options for customizing a {@link PollTimeoutError}.
+ */
+export interface PollTimeoutErrorOptions<T> extends ErrorOptions {
+	/**
+	 * The number of polls made before the timeout passed, including the interrupted one.
+	 */
+	readonly pollCount: number;
+
+	/**
+	 * The `timeout` that was exceeded.
+	 */
+	readonly timeout: number;
+
+	/**
+	 * The last value that did not satisfy the condition, or `undefined` if no poll completed.
+	 */
+	readonly lastValue?: T;
+}
+
+/**
+ * An error used to signal that polling did not satisfy the condition within the `timeout`.
+ *
+ * @param options - {@link PollTimeoutErrorOptions} describing the state of polling when the timeout passed.
+ */
+export class PollTimeoutError<T = unknown> extends Error {
+	/**
+	 * The number of polls made before the timeout passed, including the interrupted one.
+	 */
+	public readonly pollCount: number;
+
+	/**
+	 * The `timeout` that was exceeded.
+	 */
+	public readonly timeout: number;
+
+	/**
+	 * The last value that did not satisfy the condition, or `undefined` if no poll completed.
+	 */
+	public readonly lastValue?: T;
+
+	/** @internal */
+	constructor(options: PollTimeoutErrorOptions<T>) {
+		super(`Polling timed out after ${options.timeout}ms and ${options.pollCount} poll(s)`, options);
+
+		this.name = new.target.name;
+		this.pollCount = options.pollCount;
+		this.timeout = options.timeout;
+		this.lastValue = options.lastValue;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
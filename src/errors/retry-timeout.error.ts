@@ -0,0 +1,59 @@
+/**
+ * Additional options for customizing a {@link RetryTimeoutError}.
+ */
+export interface RetryTimeoutErrorOptions extends ErrorOptions {
+	/**
+	 * The number of attempts made before the deadline passed, including the interrupted one.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The time in milliseconds elapsed since the first attempt started.
+	 */
+	readonly elapsedTime: number;
+
+	/**
+	 * The `maxRetryTime` that was exceeded.
+	 */
+	readonly maxRetryTime: number;
+}
+
+/**
+ * An error used to signal that the whole retry operation exceeded `maxRetryTime` in strict mode.
+ *
+ * The error of the last failed attempt, if any, is available as `cause`.
+ *
+ * @param options - {@link RetryTimeoutErrorOptions} describing the state of the operation when the deadline passed.
+ */
+export class RetryTimeoutError extends Error {
+	/**
+	 * The number of attempts made before the deadline passed, including the interrupted one.
+	 */
+	public readonly attemptNumber: number;
+
+	/**
+	 * The time in milliseconds elapsed since the first attempt started.
+	 */
+	public readonly elapsedTime: number;
+
+	/**
+	 * The `maxRetryTime` that was exceeded.
+	 */
+	public readonly maxRetryTime: number;
+
+	/** @internal */
+	constructor(options: RetryTimeoutErrorOptions) {
+		super(`Retry time of ${options.maxRetryTime}ms exceeded after ${options.attemptNumber} attempt(s)`, options);
+
+		this.name = new.target.name;
+		this.attemptNumber = options.attemptNumber;
+		this.elapsedTime = options.elapsedTime;
+		this.maxRetryTime = options.maxRetryTime;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
@@ -0,0 +1,91 @@
+import { type AttemptRecord, type GiveUpReason } from '../types';
+
+/**
+ * Additional options for customizing a {@link RetryError}.
+ */
+export interface RetryErrorOptions {
+	/**
+	 * The failed attempts, in order.
+	 */
+	readonly attempts: readonly AttemptRecord[];
+
+	/**
+	 * Why the operation stopped retrying.
+	 */
+	readonly reason: GiveUpReason;
+
+	/**
+	 * The time in milliseconds elapsed since the operation started.
+	 */
+	readonly elapsedTime: number;
+
+	/**
+	 * The error the operation would have rejected with otherwise, usually the error of the last attempt.
+	 */
+	readonly cause: Error;
+}
+
+/**
+ * An aggregate error the operation rejects with when it gives up and the `aggregateErrors` option is enabled.
+ *
+ * Holds the errors of every attempt in `errors`, with their timings in `attempts`. The error the operation would have
+ * rejected with otherwise, usually the error of the last attempt, is available as `cause`.
+ *
+ * @param options - {@link RetryErrorOptions} describing the failed operation.
+ */
+export class RetryError extends AggregateError {
+	/**
+	 * The failed attempts, in order.
+	 */
+	public readonly attempts: readonly AttemptRecord[];
+
+	/**
+	 * Why the operation stopped retrying.
+	 */
+	public readonly reason: GiveUpReason;
+
+	/**
+	 * The time in milliseconds elapsed since the operation started.
+	 */
+	public readonly elapsedTime: number;
+
+	/** @internal */
+	constructor(options: RetryErrorOptions) {
+		super(
+			options.attempts.map(attempt => attempt.error),
+			`Failed after ${options.attempts.length} attempt(s) (${options.reason}): ${options.cause.message}`,
+			{ cause: options.cause },
+		);
+
+		this.name = new.target.name;
+		this.attempts = Object.freeze([...options.attempts]);
+		this.reason = options.reason;
+		this.elapsedTime = options.elapsedTime;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
+
+/**
+ * Checks whether the value is a {@link RetryError}.
+ *
+ * @param error - The value to check, usually the rejection reason of `pRetry`.
+ *
+ * @example
+ * ```js
+ * try {
+ * 	await pRetry(run, { aggregateErrors: true });
+ * } catch (error) {
+ * 	if (isRetryError(error)) {
+ * 		console.log(error.reason, error.errors, error.cause);
+ * 	}
+ * }
+ * ```
+ */
+export function isRetryError(error: unknown): error is RetryError {
+	return error instanceof RetryError;
+}
@@ -0,0 +1,34 @@
+/**
+ * An error used to signal that an attempt returned a result rejected by the `retryOnResult` option.
+ *
+ * It is treated as a regular failure and is passed to `onFailedAttempt` and `shouldRetry`.
+ *
+ * @param result - The unacceptable result.
+ * @param attemptNumber - The number of the attempt that returned the result.
+ */
+export class UnacceptableResultError<T = unknown> extends Error {
+	/**
+	 * The unacceptable result.
+	 */
+	public readonly result: T;
+
+	/**
+	 * The number of the attempt that returned the result.
+	 */
+	public readonly attemptNumber: number;
+
+	/** @internal */
+	constructor(result: T, attemptNumber: number, options?: ErrorOptions) {
+		super(`Attempt ${attemptNumber} returned an unacceptable result`, options);
+
+		this.name = new.target.name;
+		this.result = result;
+		this.attemptNumber = attemptNumber;
+
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
@@ -1,4 +1,59 @@
 export * from './errors';
-export type { Options, RetryContext, InputFunction } from './types';
+export * from './backoff';
+export * from './circuit-breaker';
+export * from './retry-budget';
+export * from './retry-policy';
+export * from './scheduler';
+export * from './decorators';
+export * from './predicates';
+export type {
+	Options,
+	RetryContext,
+	RetryPredicate,
+	HttpStatusPattern,
+	NetworkErrorMatcher,
+	InputFunction,
+	AttemptContext,
+	AttemptRecord,
+	BackoffStrategy,
+	BackoffFunction,
+	JitterMode,
+	HeadersLike,
+	RetryBudget,
+	GiveUpReason,
+	SuccessEvent,
+	GiveUpEvent,
+	AbortEvent,
+	Scheduler,
+	RetrySchedule,
+	RetryScheduleEntry,
+	RetrySchedulePreviewOptions,
+	RetryAttempt,
+	PollOptions,
+	RetriableFunction,
+	RetriableOptions,
+	RetriableSettings,
+	RetryAllOptions,
+	RetrySettledResult,
+	RetryFulfilledResult,
+	RetryRejectedResult,
+	FallbackSource,
+	FallbackOptions,
+	FallbackResult,
+} from './types';
+export {
+	parseRetryAfter,
+	parseRateLimitReset,
+	getRetryAfterFromHeaders,
+	getGiveUpReason,
+	isNetworkError,
+	isNodeNetworkError,
+	validateOptions,
+} from './utils';
 export * from './p-retry';
 export * from './make-retriable';
+export * from './retrying';
+export * from './p-poll';
+export * from './p-retry-all';
+export * from './p-retry-with-fallback';
+export * from './preview-retry-schedule';
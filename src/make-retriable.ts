@@ -1,9 +1,43 @@
 import { pRetry } from './p-retry';
-import { type Options } from './types';
+import { RetryPolicy } from './retry-policy';
+import { type AttemptContext, type RetriableFunction, type RetriableOptions, type RetriableSettings } from './types';
+
+/**
+ * Wrap a function so that each call is automatically retried on failure, appending the attempt context to the
+ * arguments of the wrapped function.
+ *
+ * The context holds the per-attempt `signal`, which is aborted when the attempt times out, the strict `maxRetryTime`
+ * passes or a parallel hedged attempt wins.
+ *
+ * @example
+ * ```js
+ * import { makeRetriable } from '@stimulcross/p-retry';
+ *
+ * const getUser = makeRetriable(
+ * 	(id, { signal }) => fetch(`https://example.com/users/${id}`, { signal }),
+ * 	{ attemptTimeout: 5000 },
+ * 	{ appendContext: true },
+ * );
+ *
+ * const response = await getUser('sindresorhus');
+ * ```
+ */
+export function makeRetriable<Args extends readonly unknown[], Res, This = unknown>(
+	fn: (this: This, ...args: [...Args, AttemptContext]) => Res | PromiseLike<Res>,
+	options: RetriableOptions<Args, This>,
+	settings: RetriableSettings & { readonly appendContext: true },
+): RetriableFunction<Args, Res, This>;
 
 /**
  *  Wrap a function so that each call is automatically retried on failure.
  *
+ * Accepts either plain options or a {@link RetryPolicy}, or a function deriving them from the call arguments, for
+ * example, to skip retries of non-idempotent requests or to pass a per-call `signal`. `this` is forwarded to the
+ * wrapped function, so methods can be wrapped as well. Enable `appendContext` to receive the per-attempt `signal`.
+ *
+ * The returned function has a `withOptions(overrides)` method that creates a variant with the given options applied
+ * on top.
+ *
  * @example
  * ```js
  * import {makeRetriable} from '@stimulcorss/p-retry';
@@ -11,11 +45,47 @@ import { type Options } from './types';
  * const fetchWithRetry = makeRetriable(fetch, {retries: 5});
  *
  * const response = await fetchWithRetry('https://sindresorhus.com/unicorn');
+ *
+ * // Only retry idempotent requests and stop retrying when the request is aborted
+ * const safeFetch = makeRetriable(fetch, (url, init) => ({
+ * 	retries: init?.method === 'POST' ? 0 : 5,
+ * 	signal: init?.signal,
+ * }));
+ * const patientFetch = safeFetch.withOptions({ maxRetryTime: 60_000 });
  * ```
  */
-export function makeRetriable<Args extends readonly unknown[], Res>(
-	fn: (...args: Args) => Res | PromiseLike<Res>,
-	options: Options,
-): (...args: Args) => Promise<Res> {
-	return (...args: Args) => pRetry<Res>(() => fn(...args), options);
+export function makeRetriable<Args extends readonly unknown[], Res, This = unknown>(
+	fn: (this: This, ...args: Args) => Res | PromiseLike<Res>,
+	options: RetriableOptions<Args, This>,
+	settings?: RetriableSettings,
+): RetriableFunction<Args, Res, This>;
+
+export function makeRetriable<Args extends readonly unknown[], Res, This = unknown>(
+	fn: (this: This, ...args: Args | [...Args, AttemptContext]) => Res | PromiseLike<Res>,
+	options: RetriableOptions<Args, This>,
+	settings: RetriableSettings = {},
+): RetriableFunction<Args, Res, This> {
+	const resolveOptions = (thisArg: This, args: Args) =>
+		typeof options === 'function' ? options.call(thisArg, ...args) : options;
+
+	async function retriable(this: This, ...args: Args): Promise<Res> {
+		return await pRetry<Res>(
+			async (_attemptNumber, context) =>
+				await (settings.appendContext ? fn.call(this, ...args, context) : fn.call(this, ...args)),
+			resolveOptions(this, args),
+		);
+	}
+
+	return Object.assign(retriable, {
+		withOptions: (overrides: RetriableOptions<Args, This>) => {
+			function mergeOptions(this: This, ...args: Args): RetryPolicy {
+				return RetryPolicy.merge(
+					resolveOptions(this, args),
+					typeof overrides === 'function' ? overrides.call(this, ...args) : overrides,
+				);
+			}
+
+			return makeRetriable(fn, mergeOptions, settings);
+		},
+	});
 }
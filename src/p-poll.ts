@@ -0,0 +1,123 @@
+import { constantBackoff } from './backoff';
+import { RetryEngine } from './engine';
+import { PollTimeoutError, UnacceptableResultError } from './errors';
+import { type InputFunction, type PollOptions } from './types';
+import { getGiveUpReason } from './utils';
+
+/**
+ * Repeatedly calls `input` until the value it returns satisfies the `until` condition, and resolves with that value.
+ *
+ * Polling is built on the same machinery as `pRetry`: the interval may be fixed or computed by a backoff strategy,
+ * and the `signal`, `unref` and `scheduler` options work the same way. Values that do not satisfy the condition are
+ * not treated as errors. If `input` throws, polling stops and rejects with the thrown error.
+ *
+ * @param input - Receives the number of the poll, starting from 1, and the attempt context, including the per-poll
+ * `AbortSignal`. It is expected to return a `Promise` or any value.
+ * @param until - Decides whether the value satisfies the condition.
+ * @param options - Options for configuring polling.
+ *
+ * @throws {PollTimeoutError} If the condition is not satisfied within the `timeout`.
+ *
+ * @example
+ * ```js
+ * import { pPoll, exponentialBackoff } from '@stimulcross/p-retry';
+ *
+ * const isFinished = job => job.status !== 'pending';
+ * const job = await pPoll(() => getJob(id), isFinished, {
+ * 	interval: exponentialBackoff({ initialDelay: 500 }),
+ * 	maxInterval: 5000,
+ * 	timeout: 60_000,
+ * });
+ * ```
+ */
+export async function pPoll<T>(
+	input: InputFunction<T>,
+	until: (value: T) => boolean | PromiseLike<boolean>,
+	options: PollOptions = {},
+): Promise<T> {
+	const { interval = 1000, timeout = Number.POSITIVE_INFINITY } = options;
+
+	if (typeof interval === 'number' && !(interval >= 0)) {
+		throw new RangeError('Expected `interval` to be a non-negative number.');
+	}
+
+	if (options.maxInterval !== undefined && !(options.maxInterval >= 0)) {
+		throw new RangeError('Expected `maxInterval` to be a non-negative number.');
+	}
+
+	if (!(timeout > 0)) {
+		throw new RangeError('Expected `timeout` to be a positive number.');
+	}
+
+	const engine = new RetryEngine({
+		retries: Number.POSITIVE_INFINITY,
+		backoff: typeof interval === 'number' ? constantBackoff(interval) : interval,
+		maxTimeout: options.maxInterval,
+		maxRetryTime: timeout,
+		strictMaxRetryTime: true,
+		// Only unsatisfied values are polled again, errors thrown by `input` stop polling
+		shouldRetry: ({ error }) => error instanceof UnacceptableResultError,
+		signal: options.signal,
+		unref: options.unref,
+		scheduler: options.scheduler,
+	});
+
+	let pollCount = 0;
+	let lastValue: T | undefined;
+
+	try {
+		for (;;) {
+			const attempt = await engine.startAttempt();
+			const { attemptNumber } = attempt.context;
+			let value: T;
+
+			pollCount++;
+
+			try {
+				value = await attempt.race(input(attemptNumber, attempt.context));
+
+				if (!(await attempt.race(until(value)))) {
+					lastValue = value;
+					throw new UnacceptableResultError(value, attemptNumber);
+				}
+			} catch (e) {
+				attempt.dispose();
+				await engine.failAttempt(attempt, e);
+				continue;
+			}
+
+			attempt.dispose();
+			await engine.completeAttempt(attempt);
+
+			return value;
+		}
+	} catch (e) {
+		if (getGiveUpReason(e) === 'max-retry-time') {
+			throw new PollTimeoutError({ pollCount, timeout, lastValue, cause: e });
+		}
+
+		throw e;
+	}
+}
+
+/**
+ * Repeatedly calls `condition` until it returns `true`.
+ *
+ * A shorthand for {@link pPoll} with a condition that returns a boolean.
+ *
+ * @param condition - Receives the number of the poll, starting from 1, and the attempt context. It is expected to
+ * return a boolean or a `Promise` resolving to one.
+ * @param options - Options for configuring polling.
+ *
+ * @throws {PollTimeoutError} If the condition does not return `true` within the `timeout`.
+ *
+ * @example
+ * ```js
+ * import { waitUntil } from '@stimulcross/p-retry';
+ *
+ * await waitUntil(async () => (await fetch(healthUrl)).ok, { interval: 500, timeout: 30_000 });
+ * ```
+ */
+export async function waitUntil(condition: InputFunction<boolean>, options: PollOptions = {}): Promise<void> {
+	await pPoll(condition, isSatisfied => isSatisfied, options);
+}
@@ -0,0 +1,78 @@
+import { execute, RetryEngine } from './engine';
+import { type AttemptContext, type RetryAllOptions, type RetrySettledResult } from './types';
+import { createSemaphore, validateOptions } from './utils';
+
+/**
+ * Runs `input` for every item under `pRetry`, with at most `concurrency` attempts running at the same time, and
+ * resolves with the settled result of every item once all of them settle.
+ *
+ * Items waiting for their next attempt do not take up a concurrency slot. The options, including the `signal` that
+ * cancels all items, are shared by all items. A shared `circuitBreaker` or `retryBudget` caps the retries of the whole
+ * batch.
+ *
+ * @param items - The items to run.
+ * @param input - Receives the item, its index and the attempt context. It is expected to return a `Promise` or any
+ * value.
+ * @param options - Options for configuring the retry behavior and the concurrency.
+ *
+ * @example
+ * ```js
+ * import { pRetryAll } from '@stimulcross/p-retry';
+ *
+ * const results = await pRetryAll(chunks, (chunk, index, { signal }) => upload(chunk, { signal }), {
+ * 	concurrency: 4,
+ * 	retries: 5,
+ * });
+ *
+ * const failed = results.filter(result => result.status === 'rejected');
+ * ```
+ */
+export async function pRetryAll<Item, T>(
+	items: Iterable<Item>,
+	input: (item: Item, index: number, context: AttemptContext) => PromiseLike<T> | T,
+	options: RetryAllOptions = {},
+): Promise<Array<RetrySettledResult<T>>> {
+	const { concurrency = Number.POSITIVE_INFINITY, ...retryOptions } = options;
+
+	if (!(concurrency >= 1) || (Number.isFinite(concurrency) && !Number.isInteger(concurrency))) {
+		throw new RangeError('Expected `concurrency` to be a positive integer.');
+	}
+
+	validateOptions(retryOptions);
+
+	// Hedged attempts would bypass the concurrency limit
+	if (Number.isFinite(retryOptions.hedgeDelay)) {
+		throw new TypeError('Expected `hedgeDelay` not to be set, hedging is not supported by `pRetryAll`.');
+	}
+
+	const semaphore = createSemaphore(concurrency);
+
+	return await Promise.all(
+		[...items].map(async (item, index): Promise<RetrySettledResult<T>> => {
+			let releaseFirstSlot: (() => void) | undefined = await semaphore.acquire(retryOptions.signal);
+
+			// The clock of the item starts once it gets its first slot, not while it waits in the queue
+			const engine = new RetryEngine(retryOptions);
+
+			const acquireSlot = async () => {
+				const releaseSlot = releaseFirstSlot ?? (await semaphore.acquire(retryOptions.signal));
+
+				releaseFirstSlot = undefined;
+
+				return releaseSlot;
+			};
+
+			try {
+				const value = await execute(
+					engine,
+					async (_attemptNumber, context) => await input(item, index, context),
+					acquireSlot,
+				);
+
+				return { status: 'fulfilled', value, attemptCount: engine.attemptNumber };
+			} catch (e) {
+				return { status: 'rejected', reason: e as Error, attemptCount: engine.attemptNumber };
+			}
+		}),
+	);
+}
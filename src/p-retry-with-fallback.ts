@@ -0,0 +1,119 @@
+import { FallbackError, RetryTimeoutError } from './errors';
+import { pRetry } from './p-retry';
+import { RetryPolicy } from './retry-policy';
+import { type FallbackOptions, type FallbackResult, type FallbackSource, type InputFunction } from './types';
+import { abortable, combineSignals } from './utils';
+
+/**
+ * Tries the sources in order, retrying each one with its own options, and resolves with the value of the first source
+ * that succeeds, along with its index and name.
+ *
+ * A source is only tried after the previous one gave up retrying. The `signal` and the `timeout` apply to the whole
+ * chain: aborting the signal rejects with an `AbortError` right away, and the timeout is a hard deadline that
+ * interrupts the running attempt, whatever the own `maxRetryTime` of the source. Both abort the `signal` of the
+ * running attempt.
+ *
+ * @param sources - The sources to try, either an `input` function or a {@link FallbackSource} with its own options.
+ * @param options - Options for configuring the chain.
+ *
+ * @throws {FallbackError} If no source succeeds, holding the error of every tried source.
+ *
+ * @example
+ * ```js
+ * import { pRetryWithFallback } from '@stimulcross/p-retry';
+ *
+ * const { value, sourceName } = await pRetryWithFallback(
+ * 	[
+ * 		{ name: 'primary', input: () => fetchUser(primaryUrl), options: { retries: 3 } },
+ * 		{ name: 'replica', input: () => fetchUser(replicaUrl), options: { retries: 1 } },
+ * 		{ name: 'cache', input: () => cache.get('user'), options: { retries: 0 } },
+ * 	],
+ * 	{ timeout: 10_000 },
+ * );
+ * ```
+ */
+export async function pRetryWithFallback<T>(
+	sources: ReadonlyArray<InputFunction<T> | FallbackSource<T>>,
+	options: FallbackOptions = {},
+): Promise<FallbackResult<T>> {
+	const { signal, timeout = Number.POSITIVE_INFINITY } = options;
+
+	if (sources.length === 0) {
+		throw new TypeError('Expected at least one source.');
+	}
+
+	if (!(timeout > 0)) {
+		throw new RangeError('Expected `timeout` to be a positive number.');
+	}
+
+	const startTime = Date.now();
+	const errors: Error[] = [];
+	let isTimedOut = false;
+
+	for (const [sourceIndex, source] of sources.entries()) {
+		const { name, input, options: sourceOptions = {} } = typeof source === 'function' ? { input: source } : source;
+		const retryOptions = sourceOptions instanceof RetryPolicy ? sourceOptions.options : sourceOptions;
+		const remainingTime = timeout - (Date.now() - startTime);
+
+		if (remainingTime <= 0) {
+			isTimedOut = true;
+			break;
+		}
+
+		// The deadline of the chain applies on top of the own `maxRetryTime` of the source and interrupts the attempt
+		const deadlineController = new AbortController();
+		let attemptCount = 0;
+		let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+
+		if (Number.isFinite(timeout)) {
+			deadlineTimer = setTimeout(() => {
+				deadlineController.abort(
+					new RetryTimeoutError({
+						attemptNumber: attemptCount,
+						elapsedTime: Date.now() - startTime,
+						maxRetryTime: timeout,
+					}),
+				);
+			}, remainingTime);
+		}
+
+		const chainSignal = combineSignals(signal, deadlineController.signal);
+
+		try {
+			const value = await abortable(
+				pRetry(
+					async (attemptNumber, context) => {
+						attemptCount = attemptNumber;
+						return await input(attemptNumber, context);
+					},
+					{ ...retryOptions, signal: combineSignals(chainSignal, retryOptions.signal) },
+				),
+				chainSignal,
+			);
+
+			return { value, sourceIndex, sourceName: name, errors: Object.freeze(errors) };
+		} catch (e) {
+			// Aborting the shared signal stops the whole chain
+			if (signal?.aborted) {
+				throw e;
+			}
+
+			if (deadlineController.signal.aborted) {
+				errors.push(deadlineController.signal.reason as RetryTimeoutError);
+				isTimedOut = true;
+				break;
+			}
+
+			errors.push(e as Error);
+		} finally {
+			clearTimeout(deadlineTimer);
+		}
+	}
+
+	throw new FallbackError({
+		errors,
+		sourceCount: sources.length,
+		elapsedTime: Date.now() - startTime,
+		isTimedOut,
+	});
+}
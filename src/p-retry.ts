@@ -1,6 +1,6 @@
-import { AbortError } from './errors';
+import { execute, executeHedged, RetryEngine } from './engine';
+import { type RetryPolicy } from './retry-policy';
 import { type InputFunction, type Options } from './types';
-import { calculateDelay, createRetryContext, isNetworkError, throwIfAborted } from './utils';
 
 /**
  * Returns a `Promise` that is fulfilled when calling `input` returns a fulfilled promise.
@@ -10,9 +10,12 @@ import { calculateDelay, createRetryContext, isNetworkError, throwIfAborted } fr
  * Does not retry on most `TypeErrors`, with the exception of network errors. This is done on a best case basis as
  * different browsers have different [messages](https://developer.mozilla.org/en-US/docs/Web/API/Fetch_API/Using_Fetch#Checking_that_the_fetch_was_successful)
  * to indicate this. See [whatwg/fetch#526 (comment)](https://github.com/whatwg/fetch/issues/526#issuecomment-554604080)
+ * Transient Node.js network errors, such as `ECONNRESET` in the `cause` of an undici `fetch failed` error, are retried
+ * as well.
  *
- * @param input - Receives the number of attempts as the first argument and is expected to return a `Promise` or any value.
- * @param options - Options for configuring the retry behavior.
+ * @param input - Receives the number of attempts as the first argument and the attempt context, including
+ * the per-attempt `AbortSignal`, as the second one. It is expected to return a `Promise` or any value.
+ * @param options - Options for configuring the retry behavior, or a {@link RetryPolicy}.
  *
  * @example
  *```js
@@ -32,118 +35,10 @@ import { calculateDelay, createRetryContext, isNetworkError, throwIfAborted } fr
  * console.log(await pRetry(run, {retries: 5}));
  *```
  */
-export async function pRetry<T>(input: InputFunction<T>, options: Options = {}): Promise<T> {
-	const mergedOptions = {
-		retries: options.retries ?? 10,
-		factor: options.factor ?? 2,
-		minTimeout: options.minTimeout ?? 1000,
-		maxTimeout: options.maxTimeout ?? Number.POSITIVE_INFINITY,
-		maxRetryTime: options.maxRetryTime ?? Number.POSITIVE_INFINITY,
-		randomize: options.randomize ?? false,
-		onFailedAttempt: options.onFailedAttempt ?? (() => {}),
-		shouldRetry: options.shouldRetry ?? (() => true),
-		signal: options.signal,
-		unref: options.unref ?? false,
-	};
+export async function pRetry<T>(input: InputFunction<T>, optionsOrPolicy: Options | RetryPolicy = {}): Promise<T> {
+	const engine = new RetryEngine(optionsOrPolicy);
 
-	if (typeof options.retries === 'number' && mergedOptions.retries < 0) {
-		throw new TypeError('Expected `retries` to be a non-negative number.');
-	}
-
-	const signal = mergedOptions.signal;
-
-	throwIfAborted(signal);
-
-	let attemptNumber = 0;
-	const startTime = Date.now();
-
-	const maxRetryTime = mergedOptions.maxRetryTime ?? Number.POSITIVE_INFINITY;
-
-	while (attemptNumber < mergedOptions.retries + 1) {
-		attemptNumber++;
-
-		try {
-			throwIfAborted(signal);
-
-			const result = await input(attemptNumber);
-
-			throwIfAborted(signal);
-
-			return result;
-		} catch (e) {
-			const error: Error =
-				e instanceof Error ? e : new TypeError(`Non-error was thrown: "${e}". You should only throw errors.`);
-
-			if (e instanceof AbortError || (e instanceof TypeError && !isNetworkError(error))) {
-				throw error;
-			}
-
-			const context = createRetryContext(error, attemptNumber, mergedOptions.retries);
-
-			// Always call onFailedAttempt
-			await mergedOptions.onFailedAttempt(context);
-
-			const currentTime = Date.now();
-
-			if (
-				currentTime - startTime >= maxRetryTime ||
-				attemptNumber >= mergedOptions.retries + 1 ||
-				!(await mergedOptions.shouldRetry(context))
-			) {
-				throw error; // Do not retry, throw the original error
-			}
-
-			// Calculate delay before next attempt
-			const delayTime = calculateDelay(attemptNumber, mergedOptions);
-
-			// Ensure that delay does not exceed maxRetryTime
-			const timeLeft = maxRetryTime - (currentTime - startTime);
-
-			/* istanbul ignore if */
-			if (timeLeft <= 0) {
-				throw error; // Max retry time exceeded
-			}
-
-			const finalDelay = Math.min(delayTime, timeLeft);
-
-			// Introduce delay
-			if (finalDelay > 0) {
-				await new Promise<void>((resolve, reject) => {
-					const timeoutToken = setTimeout(() => {
-						cleanup();
-						resolve();
-					}, finalDelay);
-
-					if (mergedOptions.unref) {
-						timeoutToken.unref?.();
-					}
-
-					const abortHandler = () => {
-						cleanup();
-						reject(AbortError.fromSignal(signal!));
-					};
-
-					const cleanup = () => {
-						clearTimeout(timeoutToken);
-						signal?.removeEventListener('abort', abortHandler);
-					};
-
-					if (signal) {
-						if (signal.aborted) {
-							abortHandler();
-							return;
-						}
-
-						signal.addEventListener('abort', abortHandler, { once: true });
-					}
-				});
-			}
-
-			throwIfAborted(signal);
-		}
-	}
-
-	// Should not reach here, but in case it does, throw an error
-	/* istanbul ignore next */
-	throw new Error('Retry attempts exhausted without throwing an error.');
+	return Number.isFinite(engine.options.hedgeDelay)
+		? await executeHedged(engine, input)
+		: await execute(engine, input);
 }
@@ -0,0 +1,42 @@
+import { type RetryPredicate } from '../types';
+
+/**
+ * Creates a predicate that retries only if all of the given predicates allow it.
+ *
+ * Predicates are evaluated in order, and evaluation stops at the first one that returns `false`.
+ */
+export function and(...predicates: RetryPredicate[]): RetryPredicate {
+	return async context => {
+		for (const predicate of predicates) {
+			if (!(await predicate(context))) {
+				return false;
+			}
+		}
+
+		return true;
+	};
+}
+
+/**
+ * Creates a predicate that retries if any of the given predicates allows it.
+ *
+ * Predicates are evaluated in order, and evaluation stops at the first one that returns `true`.
+ */
+export function or(...predicates: RetryPredicate[]): RetryPredicate {
+	return async context => {
+		for (const predicate of predicates) {
+			if (await predicate(context)) {
+				return true;
+			}
+		}
+
+		return false;
+	};
+}
+
+/**
+ * Creates a predicate that negates the given predicate.
+ */
+export function not(predicate: RetryPredicate): RetryPredicate {
+	return async context => !(await predicate(context));
+}
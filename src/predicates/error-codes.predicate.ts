@@ -0,0 +1,21 @@
+import { type RetryPredicate } from '../types';
+
+/**
+ * Creates a predicate that retries errors whose `code` property is one of the given codes.
+ *
+ * @param codes - The error codes to retry, such as `ECONNRESET` or `ETIMEDOUT`.
+ *
+ * @example
+ * ```js
+ * await pRetry(run, { shouldRetry: retryOn.errorCodes(['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN']) });
+ * ```
+ */
+export function errorCodes(codes: Iterable<string>): RetryPredicate {
+	const codeSet = new Set(codes);
+
+	return ({ error }) => {
+		const code = (error as { code?: unknown }).code;
+
+		return typeof code === 'string' && codeSet.has(code);
+	};
+}
@@ -0,0 +1,35 @@
+import { type HttpStatusPattern, type RetryPredicate } from '../types';
+
+function getHttpStatus(error: Error): number | undefined {
+	const candidate = error as { status?: unknown; statusCode?: unknown; response?: { status?: unknown } };
+	const status = candidate.status ?? candidate.statusCode ?? candidate.response?.status;
+
+	return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Creates a predicate that retries errors carrying one of the given HTTP status codes.
+ *
+ * The status is read from the `status`, `statusCode` or `response.status` property of the error.
+ * Errors without a status are not retried.
+ *
+ * @param statuses - Status codes, or classes of status codes such as `'5xx'`.
+ *
+ * @example
+ * ```js
+ * await pRetry(run, { shouldRetry: retryOn.httpStatus(408, 429, '5xx') });
+ * ```
+ */
+export function httpStatus(...statuses: HttpStatusPattern[]): RetryPredicate {
+	return ({ error }) => {
+		const status = getHttpStatus(error);
+
+		if (status === undefined) {
+			return false;
+		}
+
+		return statuses.some(pattern =>
+			typeof pattern === 'number' ? pattern === status : Math.floor(status / 100) === Number(pattern[0]),
+		);
+	};
+}
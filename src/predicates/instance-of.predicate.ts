@@ -0,0 +1,15 @@
+import { type RetryPredicate } from '../types';
+
+/**
+ * Creates a predicate that retries errors that are instances of one of the given classes.
+ *
+ * @param classes - The error classes to retry.
+ *
+ * @example
+ * ```js
+ * await pRetry(run, { shouldRetry: retryOn.instanceOf(TimeoutError, ConnectionError) });
+ * ```
+ */
+export function instanceOf(...classes: Array<abstract new (...args: any[]) => Error>): RetryPredicate {
+	return ({ error }) => classes.some(errorClass => error instanceof errorClass);
+}
@@ -0,0 +1,15 @@
+import { type RetryPredicate } from '../types';
+import { isNetworkError, isNodeNetworkError } from '../utils';
+
+/**
+ * Creates a predicate that retries network errors recognized by {@link isNetworkError} or
+ * {@link isNodeNetworkError}.
+ *
+ * @example
+ * ```js
+ * await pRetry(run, { shouldRetry: retryOn.networkErrors() });
+ * ```
+ */
+export function networkErrors(): RetryPredicate {
+	return ({ error }) => isNetworkError(error) || isNodeNetworkError(error);
+}
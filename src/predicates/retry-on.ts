@@ -0,0 +1,31 @@
+import { and, not, or } from './combinators';
+import { errorCodes } from './error-codes.predicate';
+import { httpStatus } from './http-status.predicate';
+import { instanceOf } from './instance-of.predicate';
+import { networkErrors } from './network-errors.predicate';
+
+/**
+ * Composable predicates for the `shouldRetry` option.
+ *
+ * @example
+ * ```js
+ * import { pRetry, retryOn } from '@stimulcross/p-retry';
+ *
+ * await pRetry(run, {
+ * 	shouldRetry: retryOn.or(
+ * 		retryOn.networkErrors(),
+ * 		retryOn.errorCodes(['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN']),
+ * 		retryOn.httpStatus(408, 429, '5xx'),
+ * 	),
+ * });
+ * ```
+ */
+export const retryOn = Object.freeze({
+	errorCodes,
+	httpStatus,
+	instanceOf,
+	networkErrors,
+	and,
+	or,
+	not,
+});
@@ -0,0 +1,115 @@
+import { RetryPolicy } from './retry-policy';
+import { type Options, type RetrySchedule, type RetryScheduleEntry, type RetrySchedulePreviewOptions } from './types';
+import { calculateDelay, createRetryContext, resolveScheduleOptions, validateOptions } from './utils';
+
+/**
+ * Computes the delays a retried operation would wait between attempts if every attempt failed.
+ *
+ * The delays are computed by the same logic `pRetry` uses at runtime, including `maxTimeout` and `maxRetryTime`.
+ * With jitter or `randomize`, every entry holds the bounds of the random delay. Custom `backoff` strategies are called
+ * with a placeholder error, and `retryAfter` hints are not taken into account, as they depend on the actual errors.
+ *
+ * @param options - Options for configuring the retry behavior, or a {@link RetryPolicy}.
+ * @param previewOptions - Options for configuring the preview.
+ *
+ * @example
+ * ```js
+ * import { previewRetrySchedule } from '@stimulcross/p-retry';
+ *
+ * const schedule = previewRetrySchedule({ retries: 5, minTimeout: 1000, maxRetryTime: 20_000 });
+ *
+ * console.log(schedule.entries.map(entry => entry.maxDelay)); //=> [1000, 2000, 4000, 8000, 5000]
+ * console.log(schedule.stopReason); //=> 'max-retry-time'
+ * ```
+ */
+export function previewRetrySchedule(
+	options: Options | RetryPolicy,
+	previewOptions: RetrySchedulePreviewOptions = {},
+): RetrySchedule {
+	const resolvedOptions = resolveScheduleOptions(options instanceof RetryPolicy ? options.options : options);
+
+	if (!(options instanceof RetryPolicy)) {
+		validateOptions(options);
+	}
+
+	const { retries, maxTimeout, maxRetryTime } = resolvedOptions;
+	const { attemptDuration = 0, maxEntries = 1000 } = previewOptions;
+	const error = new Error('Retry schedule preview');
+
+	// The lower and upper bounds are computed as separate sequences, as the next delay may depend on the previous one
+	const bounds = [0, 1].map(random => ({
+		options: { ...resolvedOptions, random: () => random },
+		elapsedTime: 0,
+		previousDelay: 0,
+	}));
+	const [lower, upper] = bounds;
+
+	const entries: RetryScheduleEntry[] = [];
+	let stopReason: RetrySchedule['stopReason'];
+	let attemptNumber = 1;
+
+	for (; ; attemptNumber++) {
+		for (const bound of bounds) {
+			bound.elapsedTime += attemptDuration;
+		}
+
+		if (upper.elapsedTime >= maxRetryTime) {
+			stopReason = 'max-retry-time';
+			break;
+		}
+
+		if (attemptNumber >= retries + 1) {
+			stopReason = 'retries-exhausted';
+			break;
+		}
+
+		if (entries.length >= maxEntries) {
+			break;
+		}
+
+		let clampedBy: RetryScheduleEntry['clampedBy'];
+
+		for (const bound of bounds) {
+			const context = createRetryContext({
+				error,
+				isFatal: false,
+				attemptNumber,
+				retries,
+				startTime: 0,
+				attemptStartTime: bound.elapsedTime - attemptDuration,
+				maxRetryTime,
+				previousErrors: [],
+				now: bound.elapsedTime,
+			});
+
+			const delay = calculateDelay(attemptNumber, bound.previousDelay, context, bound.options);
+			const clampedDelay = Math.min(delay, context.remainingTime);
+
+			if (bound === upper) {
+				clampedBy = clampedDelay < delay ? 'maxRetryTime' : delay >= maxTimeout ? 'maxTimeout' : undefined;
+			}
+
+			bound.previousDelay = clampedDelay;
+			bound.elapsedTime += clampedDelay;
+		}
+
+		entries.push(
+			Object.freeze({
+				attemptNumber,
+				minDelay: lower.previousDelay,
+				maxDelay: upper.previousDelay,
+				minElapsedTime: lower.elapsedTime,
+				maxElapsedTime: upper.elapsedTime,
+				clampedBy,
+			}),
+		);
+	}
+
+	return Object.freeze({
+		entries: Object.freeze(entries),
+		totalAttempts: attemptNumber,
+		minTotalTime: lower.elapsedTime,
+		maxTotalTime: upper.elapsedTime,
+		stopReason,
+	});
+}
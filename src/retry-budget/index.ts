@@ -0,0 +1,2 @@
+export * from './ratio-retry-budget';
+export * from './token-bucket-retry-budget';
@@ -0,0 +1,87 @@
+import { type RetryBudget } from '../types';
+
+/**
+ * Options for configuring a {@link RatioRetryBudget}.
+ */
+export interface RatioRetryBudgetOptions {
+	/**
+	 * The number of retries allowed per successful operation within the window.
+	 *
+	 * @default 0.2
+	 */
+	readonly ratio?: number;
+
+	/**
+	 * The number of retries always allowed within the window, regardless of the number of successes.
+	 *
+	 * @default 10
+	 */
+	readonly minRetries?: number;
+
+	/**
+	 * The time in milliseconds successes and retries are counted over.
+	 *
+	 * @default 10000
+	 */
+	readonly window?: number;
+}
+
+/**
+ * A retry budget that allows retries only while they stay under a ratio of successful operations.
+ *
+ * Within the sliding window, at most `minRetries + successes * ratio` retries are allowed.
+ *
+ * @example
+ * ```js
+ * import { RatioRetryBudget, makeRetriable } from '@stimulcross/p-retry';
+ *
+ * // Allow at most one retry per 10 successful calls, plus 5 retries to get started
+ * const retryBudget = new RatioRetryBudget({ ratio: 0.1, minRetries: 5 });
+ *
+ * const getUser = makeRetriable(fetchUser, { retryBudget });
+ * ```
+ */
+export class RatioRetryBudget implements RetryBudget {
+	private readonly _ratio: number;
+	private readonly _minRetries: number;
+	private readonly _window: number;
+	private readonly _successes: number[] = [];
+	private readonly _retries: number[] = [];
+
+	constructor(options: RatioRetryBudgetOptions = {}) {
+		this._ratio = options.ratio ?? 0.2;
+		this._minRetries = options.minRetries ?? 10;
+		this._window = options.window ?? 10_000;
+	}
+
+	public recordSuccess(): void {
+		const now = Date.now();
+
+		this._prune(now);
+		this._successes.push(now);
+	}
+
+	public tryWithdraw(): boolean {
+		const now = Date.now();
+
+		this._prune(now);
+
+		if (this._retries.length >= this._minRetries + this._successes.length * this._ratio) {
+			return false;
+		}
+
+		this._retries.push(now);
+
+		return true;
+	}
+
+	private _prune(now: number): void {
+		const threshold = now - this._window;
+
+		for (const timestamps of [this._successes, this._retries]) {
+			while (timestamps.length > 0 && timestamps[0] <= threshold) {
+				timestamps.shift();
+			}
+		}
+	}
+}
@@ -0,0 +1,78 @@
+import { type RetryBudget } from '../types';
+
+/**
+ * Options for configuring a {@link TokenBucketRetryBudget}.
+ */
+export interface TokenBucketRetryBudgetOptions {
+	/**
+	 * The maximum number of tokens in the bucket. The bucket starts full.
+	 *
+	 * @default 10
+	 */
+	readonly capacity?: number;
+
+	/**
+	 * The number of tokens added to the bucket per second.
+	 *
+	 * @default 1
+	 */
+	readonly refillRate?: number;
+}
+
+/**
+ * A retry budget backed by a token bucket. Every retry takes one token, and tokens are refilled over time.
+ *
+ * @example
+ * ```js
+ * import { TokenBucketRetryBudget, pRetry } from '@stimulcross/p-retry';
+ *
+ * // Allow bursts of 20 retries and 2 retries per second afterwards
+ * const retryBudget = new TokenBucketRetryBudget({ capacity: 20, refillRate: 2 });
+ *
+ * await Promise.all(jobs.map(job => pRetry(job, { retryBudget })));
+ * ```
+ */
+export class TokenBucketRetryBudget implements RetryBudget {
+	private readonly _capacity: number;
+	private readonly _refillRate: number;
+	private _tokens: number;
+	private _lastRefill = Date.now();
+
+	constructor(options: TokenBucketRetryBudgetOptions = {}) {
+		this._capacity = options.capacity ?? 10;
+		this._refillRate = options.refillRate ?? 1;
+		this._tokens = this._capacity;
+	}
+
+	/**
+	 * The number of tokens currently available.
+	 */
+	public get tokens(): number {
+		this._refill();
+
+		return this._tokens;
+	}
+
+	public recordSuccess(): void {
+		// Tokens are refilled over time only
+	}
+
+	public tryWithdraw(): boolean {
+		this._refill();
+
+		if (this._tokens < 1) {
+			return false;
+		}
+
+		this._tokens--;
+
+		return true;
+	}
+
+	private _refill(): void {
+		const now = Date.now();
+
+		this._tokens = Math.min(this._capacity, this._tokens + ((now - this._lastRefill) / 1000) * this._refillRate);
+		this._lastRefill = now;
+	}
+}
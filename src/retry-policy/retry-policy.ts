@@ -0,0 +1,166 @@
+import { type Options } from '../types';
+import { omitUndefined, validateOptions } from '../utils';
+
+const numberFields = [
+	'retries',
+	'factor',
+	'minTimeout',
+	'maxTimeout',
+	'maxRetryTime',
+	'attemptTimeout',
+	'hedgeDelay',
+	'maxHedges',
+] as const;
+const booleanFields = [
+	'randomize',
+	'strictMaxRetryTime',
+	'shouldRetryFatalErrors',
+	'aggregateErrors',
+	'returnLastResult',
+	'unref',
+] as const;
+
+/**
+ * The serializable subset of {@link Options}, as produced by {@link RetryPolicy.toJSON}.
+ *
+ * Functions and object instances, such as hooks, the abort signal or the circuit breaker, are not included.
+ */
+export type RetryPolicyJson = Pick<
+	Options,
+	| 'retries'
+	| 'factor'
+	| 'minTimeout'
+	| 'maxTimeout'
+	| 'randomize'
+	| 'jitter'
+	| 'maxRetryTime'
+	| 'strictMaxRetryTime'
+	| 'attemptTimeout'
+	| 'hedgeDelay'
+	| 'maxHedges'
+	| 'shouldRetryFatalErrors'
+	| 'aggregateErrors'
+	| 'returnLastResult'
+	| 'unref'
+>;
+
+/**
+ * A reusable, validated set of retry options.
+ *
+ * A policy can be passed to `pRetry` and `makeRetriable` in place of plain options. Policies are immutable: {@link with}
+ * and {@link merge} return new policies, leaving the original one untouched.
+ *
+ * @example
+ * ```js
+ * import { RetryPolicy, makeRetriable, pRetry } from '@stimulcross/p-retry';
+ *
+ * const defaultPolicy = new RetryPolicy({ retries: 5, minTimeout: 500, jitter: 'full' });
+ * const quickPolicy = defaultPolicy.with({ retries: 2 });
+ *
+ * await pRetry(run, defaultPolicy);
+ * const getUser = makeRetriable(fetchUser, quickPolicy);
+ * ```
+ */
+export class RetryPolicy {
+	private readonly _options: Options;
+
+	/**
+	 * Creates a policy from the given options.
+	 *
+	 * @param options - Options for configuring the retry behavior.
+	 *
+	 * @throws {TypeError} If an option has the wrong type.
+	 * @throws {RangeError} If a numeric option is out of range. See {@link validateOptions}.
+	 */
+	constructor(options: Options = {}) {
+		validateOptions(options);
+
+		this._options = Object.freeze(omitUndefined(options));
+	}
+
+	/**
+	 * The options of the policy.
+	 */
+	public get options(): Options {
+		return this._options;
+	}
+
+	/**
+	 * Merges the given policies and options into a single policy. Later sources take precedence.
+	 *
+	 * @param sources - Policies or plain options to merge.
+	 */
+	public static merge(...sources: Array<RetryPolicy | Options>): RetryPolicy {
+		return new RetryPolicy(
+			Object.assign(
+				{},
+				...sources.map(source => (source instanceof RetryPolicy ? source.options : omitUndefined(source))),
+			) as Options,
+		);
+	}
+
+	/**
+	 * Creates a policy from its serialized form.
+	 *
+	 * Unknown properties are ignored, so retry settings can be read from a larger configuration object.
+	 *
+	 * @param json - A JSON string or an already parsed object, as produced by {@link toJSON}.
+	 *
+	 * @throws {TypeError} If the JSON is not an object or a property has the wrong type.
+	 * @throws {RangeError} If a numeric property is out of range.
+	 */
+	public static fromJson(json: string | RetryPolicyJson): RetryPolicy {
+		const source = (typeof json === 'string' ? JSON.parse(json) : json) as Record<string, unknown>;
+
+		if (typeof source !== 'object' || source === null) {
+			throw new TypeError('Expected the retry policy to be an object.');
+		}
+
+		const options: Record<string, unknown> = {};
+
+		for (const field of [...numberFields, ...booleanFields, 'jitter'] as const) {
+			if (source[field] !== undefined) {
+				options[field] = source[field];
+			}
+		}
+
+		return new RetryPolicy(options);
+	}
+
+	/**
+	 * Returns a new policy with the given options applied on top of the options of this policy.
+	 *
+	 * @param overrides - A policy or plain options that take precedence over the options of this policy.
+	 */
+	public with(overrides: RetryPolicy | Options): RetryPolicy {
+		return RetryPolicy.merge(this, overrides);
+	}
+
+	/**
+	 * Returns the serializable options of the policy.
+	 *
+	 * Functions and object instances are omitted, as are infinite numbers, since JSON cannot represent them and they
+	 * match the defaults of the corresponding options.
+	 */
+	// `JSON.stringify` looks the method up by this exact name
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	public toJSON(): RetryPolicyJson {
+		const json: Record<string, unknown> = {};
+
+		for (const field of numberFields) {
+			const value = this._options[field];
+
+			if (value !== undefined && Number.isFinite(value)) {
+				json[field] = value;
+			}
+		}
+
+		for (const field of [...booleanFields, 'jitter'] as const) {
+			if (this._options[field] !== undefined) {
+				json[field] = this._options[field];
+			}
+		}
+
+		return json;
+	}
+}
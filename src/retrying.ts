@@ -0,0 +1,90 @@
+import { RetryEngine } from './engine';
+import { type RetryPolicy } from './retry-policy';
+import { type Options, type RetryAttempt } from './types';
+
+/**
+ * Returns an async iterator that yields an attempt on every iteration, for retry loops that cannot be expressed as a
+ * single function.
+ *
+ * Every attempt must be settled with `attempt.fail(error)` or `attempt.succeed()`. The iterator then waits out the
+ * delay and yields the next attempt, or completes. Backoff, `maxRetryTime`, `signal`, `shouldRetry` and all other
+ * options work exactly as in `pRetry`, and the iterator throws the error `pRetry` would reject with.
+ *
+ * As the attempt is run by the caller, `attemptTimeout` only aborts `attempt.signal`. Breaking out of the loop after
+ * `attempt.succeed()` completes the operation, while breaking out before settling the attempt abandons it.
+ *
+ * @param options - Options for configuring the retry behavior, or a {@link RetryPolicy}.
+ *
+ * @example
+ * ```js
+ * import { retrying } from '@stimulcross/p-retry';
+ *
+ * for await (const attempt of retrying({ retries: 5 })) {
+ * 	const connection = await pool.acquire();
+ *
+ * 	try {
+ * 		await connection.query('UPDATE …', { signal: attempt.signal });
+ * 		attempt.succeed();
+ * 	} catch (error) {
+ * 		attempt.fail(error);
+ * 	} finally {
+ * 		await pool.release(connection);
+ * 	}
+ * }
+ * ```
+ */
+export async function* retrying(options: Options | RetryPolicy = {}): AsyncGenerator<RetryAttempt, void, undefined> {
+	const engine = new RetryEngine(options);
+
+	for (;;) {
+		const handle = await engine.startAttempt();
+		let outcome: { readonly isSuccess: true } | { readonly isSuccess: false; readonly error: unknown } | undefined;
+
+		const settle = (value: NonNullable<typeof outcome>) => {
+			if (outcome) {
+				throw new TypeError('The attempt has already been settled.');
+			}
+
+			outcome = value;
+		};
+
+		const attempt: RetryAttempt = Object.freeze({
+			...handle.context,
+			retryContext: engine.lastContext,
+			fail: (error: unknown) => settle({ isSuccess: false, error }),
+			succeed: () => settle({ isSuccess: true }),
+		});
+
+		let isResumed = false;
+
+		try {
+			yield attempt;
+			isResumed = true;
+		} finally {
+			handle.dispose();
+
+			// The caller stopped iterating
+			if (!isResumed) {
+				if (outcome?.isSuccess) {
+					await engine.completeAttempt(handle);
+				} else {
+					engine.releaseAttempt();
+				}
+			}
+		}
+
+		if (outcome === undefined) {
+			engine.releaseAttempt();
+			throw new TypeError(
+				'Expected `attempt.fail()` or `attempt.succeed()` to be called before the next attempt.',
+			);
+		}
+
+		if (outcome.isSuccess) {
+			await engine.completeAttempt(handle);
+			return;
+		}
+
+		await engine.failAttempt(handle, outcome.error);
+	}
+}
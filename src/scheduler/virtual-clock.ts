@@ -0,0 +1,63 @@
+import { type Scheduler } from '../types';
+import { throwIfAborted } from '../utils';
+
+/**
+ * A virtual clock for testing retried operations without real timers.
+ *
+ * Passed as the `scheduler` option, it makes every wait between attempts resolve immediately while advancing its
+ * virtual time by the waited duration, so a full retry sequence runs instantly. Every wait is recorded in
+ * {@link delays}.
+ *
+ * The `attemptTimeout` and `hedgeDelay` options, and the deadline of `strictMaxRetryTime`, still use real timers.
+ *
+ * @example
+ * ```js
+ * import { pRetry, VirtualClock } from '@stimulcross/p-retry';
+ *
+ * const clock = new VirtualClock();
+ *
+ * await pRetry(alwaysFails, { retries: 3, scheduler: clock }).catch(() => {});
+ *
+ * console.log(clock.delays); //=> [1000, 2000, 4000]
+ * ```
+ */
+export class VirtualClock implements Scheduler {
+	private readonly _delays: number[] = [];
+	private _now: number;
+
+	/**
+	 * Creates a virtual clock.
+	 *
+	 * @param startTime - The initial virtual time in milliseconds.
+	 */
+	constructor(startTime: number = 0) {
+		this._now = startTime;
+	}
+
+	/**
+	 * The durations of all waits in milliseconds, in the order they were made.
+	 */
+	public get delays(): readonly number[] {
+		return [...this._delays];
+	}
+
+	public now(): number {
+		return this._now;
+	}
+
+	public async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+		throwIfAborted(signal);
+
+		this._delays.push(ms);
+		this.advance(ms);
+	}
+
+	/**
+	 * Advances the virtual time without recording a wait, for example, to simulate a slow attempt.
+	 *
+	 * @param ms - The number of milliseconds to advance by.
+	 */
+	public advance(ms: number): void {
+		this._now += Math.max(ms, 0);
+	}
+}
@@ -0,0 +1,18 @@
+export interface AttemptContext {
+	/**
+	 * The number of the current attempt, starting from 1.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The number of retries left after the current attempt.
+	 */
+	readonly retriesLeft: number;
+
+	/**
+	 * A signal that is aborted when the attempt times out or when the `signal` passed to the options is aborted.
+	 *
+	 * Pass it to cancellable operations, such as `fetch`, so that hung attempts are cancelled.
+	 */
+	readonly signal: AbortSignal;
+}
@@ -0,0 +1,24 @@
+/**
+ * Describes a single failed attempt of a retried operation.
+ */
+export interface AttemptRecord {
+	/**
+	 * The number of the attempt, starting from 1.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The error the attempt failed with.
+	 */
+	readonly error: Error;
+
+	/**
+	 * The time, in milliseconds since the epoch, the attempt started at.
+	 */
+	readonly startTime: number;
+
+	/**
+	 * The time in milliseconds the attempt took.
+	 */
+	readonly duration: number;
+}
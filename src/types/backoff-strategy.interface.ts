@@ -0,0 +1,28 @@
+import { type RetryContext } from './retry-context.interface';
+
+/**
+ * A function that computes the delay (in milliseconds) before the next attempt.
+ *
+ * @param attemptNumber - The number of the attempt that has just failed, starting from 1.
+ * @param previousDelay - The delay applied before the failed attempt, or `0` for the first attempt.
+ * @param context - The retry context of the failed attempt, without the `delay` being computed.
+ */
+export type BackoffFunction = (
+	attemptNumber: number,
+	previousDelay: number,
+	context: Omit<RetryContext, 'delay'>,
+) => number;
+
+/**
+ * A strategy that computes the delay (in milliseconds) before the next attempt.
+ */
+export interface BackoffStrategy {
+	/**
+	 * Computes the delay before the next attempt.
+	 *
+	 * @param attemptNumber - The number of the attempt that has just failed, starting from 1.
+	 * @param previousDelay - The delay applied before the failed attempt, or `0` for the first attempt.
+	 * @param context - The retry context of the failed attempt, without the `delay` being computed.
+	 */
+	computeDelay: BackoffFunction;
+}
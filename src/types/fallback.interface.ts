@@ -0,0 +1,69 @@
+import { type InputFunction } from './input-function';
+import { type Options } from './options.interface';
+import { type RetryPolicy } from '../retry-policy';
+
+/**
+ * A source of the value in a fallback chain run by `pRetryWithFallback`, retried with its own options.
+ */
+export interface FallbackSource<T> {
+	/**
+	 *	The name reported in the result when the source succeeds, for example, `'replica'`.
+	 */
+	readonly name?: string;
+
+	/**
+	 *	Called like the `input` of `pRetry`.
+	 */
+	readonly input: InputFunction<T>;
+
+	/**
+	 *	Options for retrying this source, or a `RetryPolicy`. The `signal` is combined with the one of the chain, and
+	 *	the `timeout` of the chain applies on top of `maxRetryTime`.
+	 */
+	readonly options?: Options | RetryPolicy;
+}
+
+/**
+ * Options for configuring `pRetryWithFallback`.
+ */
+export interface FallbackOptions {
+	/**
+	 *	Stops the whole chain and rejects with an `AbortError` right away when aborted. The `signal` of the running
+	 *	attempt is aborted as well.
+	 */
+	readonly signal?: AbortSignal;
+
+	/**
+	 *	The overall time in milliseconds for the whole chain. When it passes, the running attempt is interrupted and
+	 *	its `signal` is aborted, whatever the `maxRetryTime` of the source, and no further source is started. The source
+	 *	then fails with a `RetryTimeoutError`.
+	 *
+	 *	@default Infinity
+	 */
+	readonly timeout?: number;
+}
+
+/**
+ * The value resolved by `pRetryWithFallback`, along with the source it came from.
+ */
+export interface FallbackResult<T> {
+	/**
+	 *	The value the source resolved with.
+	 */
+	readonly value: T;
+
+	/**
+	 *	The index of the source that succeeded.
+	 */
+	readonly sourceIndex: number;
+
+	/**
+	 *	The name of the source that succeeded, if it has one.
+	 */
+	readonly sourceName?: string;
+
+	/**
+	 *	The errors of the sources that failed before, in order.
+	 */
+	readonly errors: readonly Error[];
+}
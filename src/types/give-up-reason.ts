@@ -0,0 +1,21 @@
+/**
+ * The reason a retried operation stopped retrying.
+ *
+ * - `retries-exhausted` - all retries were used.
+ * - `max-retry-time` - the `maxRetryTime` budget ran out.
+ * - `should-retry` - `shouldRetry` returned `false`.
+ * - `aborted` - the operation was aborted by the `signal` or by an `AbortError`.
+ * - `non-retryable` - the error is never retried, such as a `TypeError` that is not a network error.
+ * - `circuit-open` - the `circuitBreaker` is open.
+ * - `retry-budget-exhausted` - the shared `retryBudget` did not allow another retry.
+ * - `hook-error` - `onAttemptStart`, `onFailedAttempt`, `shouldRetry` or `onRetryScheduled` threw.
+ */
+export type GiveUpReason =
+	| 'retries-exhausted'
+	| 'max-retry-time'
+	| 'should-retry'
+	| 'aborted'
+	| 'non-retryable'
+	| 'circuit-open'
+	| 'retry-budget-exhausted'
+	| 'hook-error';
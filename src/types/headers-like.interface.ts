@@ -0,0 +1,6 @@
+/**
+ * A minimal subset of the Fetch API `Headers` interface.
+ */
+export interface HeadersLike {
+	get(name: string): string | null | undefined;
+}
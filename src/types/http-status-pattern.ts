@@ -0,0 +1,4 @@
+/**
+ * An HTTP status code or a class of status codes, such as `'5xx'`.
+ */
+export type HttpStatusPattern = number | `${1 | 2 | 3 | 4 | 5}xx`;
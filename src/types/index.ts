@@ -1,4 +1,22 @@
 export * from './options.interface';
 export * from './input-function';
+export * from './attempt-context.interface';
+export * from './attempt-record.interface';
 export * from './retry-context.interface';
+export * from './retry-predicate';
+export * from './http-status-pattern';
+export * from './network-error-matcher';
+export * from './backoff-strategy.interface';
+export * from './jitter-mode';
+export * from './headers-like.interface';
+export * from './retry-budget.interface';
+export * from './give-up-reason';
+export * from './lifecycle-events.interface';
 export * from './make-required';
+export * from './scheduler.interface';
+export * from './retry-schedule.interface';
+export * from './retry-attempt.interface';
+export * from './poll-options.interface';
+export * from './retriable';
+export * from './retry-all.interface';
+export * from './fallback.interface';
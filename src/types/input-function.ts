@@ -1 +1,3 @@
-export type InputFunction<T = unknown> = (attemptNumber: number) => PromiseLike<T> | T;
+import { type AttemptContext } from './attempt-context.interface';
+
+export type InputFunction<T = unknown> = (attemptNumber: number, context: AttemptContext) => PromiseLike<T> | T;
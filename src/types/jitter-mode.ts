@@ -0,0 +1,11 @@
+/**
+ * The jitter mode applied to retry delays.
+ *
+ * - `none` - the delay is used as is.
+ * - `full` - a random delay between `0` and the computed delay.
+ * - `equal` - half of the computed delay plus a random delay between `0` and the other half.
+ * - `decorrelated` - a random delay between `minTimeout` and three times the previous delay.
+ *
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export type JitterMode = 'none' | 'full' | 'equal' | 'decorrelated';
@@ -0,0 +1,62 @@
+import { type AbortError } from '../errors';
+import { type GiveUpReason } from './give-up-reason';
+
+/**
+ * Passed to the `onSuccess` hook when the retried operation succeeds.
+ */
+export interface SuccessEvent {
+	/**
+	 * The number of the successful attempt.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The time in milliseconds elapsed since the first attempt started.
+	 */
+	readonly duration: number;
+}
+
+/**
+ * Passed to the `onGiveUp` hook when the retried operation stops retrying and rejects.
+ */
+export interface GiveUpEvent {
+	/**
+	 * Why the operation stopped retrying.
+	 */
+	readonly reason: GiveUpReason;
+
+	/**
+	 * The error the operation rejects with.
+	 */
+	readonly error: Error;
+
+	/**
+	 * The number of attempts made, or `0` if the operation was aborted before the first attempt.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The time in milliseconds elapsed since the operation started.
+	 */
+	readonly duration: number;
+}
+
+/**
+ * Passed to the `onAbort` hook when the retried operation is aborted.
+ */
+export interface AbortEvent {
+	/**
+	 * The error the operation rejects with.
+	 */
+	readonly error: AbortError;
+
+	/**
+	 * The number of attempts made, or `0` if the operation was aborted before the first attempt.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The time in milliseconds elapsed since the operation started.
+	 */
+	readonly duration: number;
+}
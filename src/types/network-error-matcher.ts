@@ -0,0 +1,5 @@
+/**
+ * Recognizes additional network errors: an exact error message, a pattern tested against the error message,
+ * or a function that receives the error.
+ */
+export type NetworkErrorMatcher = string | RegExp | ((error: Error) => boolean);
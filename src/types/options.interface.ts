@@ -1,4 +1,12 @@
+import { type CircuitBreaker } from '../circuit-breaker';
+import { type AttemptContext } from './attempt-context.interface';
+import { type BackoffFunction, type BackoffStrategy } from './backoff-strategy.interface';
+import { type JitterMode } from './jitter-mode';
+import { type AbortEvent, type GiveUpEvent, type SuccessEvent } from './lifecycle-events.interface';
+import { type NetworkErrorMatcher } from './network-error-matcher';
+import { type RetryBudget } from './retry-budget.interface';
 import { type RetryContext } from './retry-context.interface';
+import { type Scheduler } from './scheduler.interface';
 
 export interface Options {
 	/**
@@ -55,7 +63,8 @@ export interface Options {
 	/**
 	 *	Decide if a retry should occur based on the context. Returning true triggers a retry, false aborts with the error.
 	 *
-	 *	It is not called for `TypeError` (except network errors) and `AbortError`.
+	 *	It is not called for `TypeError` (except network errors) and `AbortError`, unless `shouldRetryFatalErrors`
+	 *	is enabled.
 	 *
 	 *	@example
 	 *	```js
@@ -72,6 +81,122 @@ export interface Options {
 	 */
 	readonly shouldRetry?: (context: RetryContext) => boolean | Promise<boolean>;
 
+	/**
+	 *	Callback invoked right before each attempt starts. Receives the attempt context.
+	 *
+	 *	If it throws, the operation gives up with the `'hook-error'` reason and rejects with the thrown error, without
+	 *	calling `input` or reporting a failure to the `circuitBreaker`.
+	 */
+	readonly onAttemptStart?: (context: AttemptContext) => void | Promise<void>;
+
+	/**
+	 *	Callback invoked after a failed attempt once a retry is scheduled. Receives the retry context of the failed
+	 *	attempt and the delay in milliseconds before the next attempt.
+	 */
+	readonly onRetryScheduled?: (context: RetryContext, delay: number) => void | Promise<void>;
+
+	/**
+	 *	Callback invoked once when the operation succeeds. Receives the number of the successful attempt and the total
+	 *	duration of the operation.
+	 */
+	readonly onSuccess?: (event: SuccessEvent) => void | Promise<void>;
+
+	/**
+	 *	Callback invoked once when the operation stops retrying and is about to reject. Receives the error, the number
+	 *	of attempts, the total duration and the reason: `'retries-exhausted'`, `'max-retry-time'`, `'should-retry'`,
+	 *	`'aborted'`, `'non-retryable'`, `'circuit-open'`, `'retry-budget-exhausted'` or `'hook-error'`.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry } from '@stimulcross/p-retry';
+	 *
+	 *	const result = await pRetry(run, {
+	 *		onGiveUp: ({ reason, attemptNumber, duration }) => {
+	 *			metrics.increment('retry.give_up', { reason });
+	 *			logger.warn(`Gave up after ${attemptNumber} attempts and ${duration}ms: ${reason}`);
+	 *		}
+	 *	});
+	 *	```
+	 */
+	readonly onGiveUp?: (event: GiveUpEvent) => void | Promise<void>;
+
+	/**
+	 *	Callback invoked when the operation is aborted by the `signal` or by an `AbortError`, right before `onGiveUp`.
+	 */
+	readonly onAbort?: (event: AbortEvent) => void | Promise<void>;
+
+	/**
+	 *	Additional matchers for network errors the built-in list does not recognize.
+	 *
+	 *	A `TypeError` matched by any of them is retried like a built-in network error. A string matches the error
+	 *	message exactly, a `RegExp` is tested against the error message, and a function receives the error.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry } from '@stimulcross/p-retry';
+	 *
+	 *	const result = await pRetry(run, {
+	 *		networkErrorMatchers: ['socket hang up', /^connection reset/i]
+	 *	});
+	 *	```
+	 */
+	readonly networkErrorMatchers?: readonly NetworkErrorMatcher[];
+
+	/**
+	 *	Decides whether an error is fatal and must not be retried. Replaces the built-in rule that does not retry
+	 *	`TypeError`s other than network errors. Pass `false` to disable the built-in rule and retry every error.
+	 *
+	 *	`AbortError`, `RetryTimeoutError` and `CircuitOpenError` are always fatal.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry } from '@stimulcross/p-retry';
+	 *
+	 *	const result = await pRetry(run, {
+	 *		isFatalError: error => error instanceof ValidationError
+	 *	});
+	 *	```
+	 */
+	readonly isFatalError?: ((error: Error) => boolean) | false;
+
+	/**
+	 *	Passes fatal errors to `onFailedAttempt` and `shouldRetry` instead of rejecting immediately, with the `isFatal`
+	 *	flag of the context set to `true`. `shouldRetry` then decides whether to retry them. If `shouldRetry` is not
+	 *	set, fatal errors are still not retried.
+	 *
+	 *	`AbortError`, `RetryTimeoutError` and `CircuitOpenError` still reject immediately.
+	 *
+	 *	@default false
+	 */
+	readonly shouldRetryFatalErrors?: boolean;
+
+	/**
+	 *	Decides whether a successful result is unacceptable and the attempt must be retried, for example, a pending
+	 *	job status or a `Response` that is not `ok`.
+	 *
+	 *	When it returns `true`, the attempt fails with an `UnacceptableResultError` holding the result, which is
+	 *	passed to `onFailedAttempt` and `shouldRetry` like any other error. If it throws, the attempt fails with the
+	 *	thrown error.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry } from '@stimulcross/p-retry';
+	 *
+	 *	const response = await pRetry(() => fetch(url), {
+	 *		retryOnResult: response => response.status >= 500,
+	 *	});
+	 *	```
+	 */
+	readonly retryOnResult?: (result: unknown, context: AttemptContext) => boolean | Promise<boolean>;
+
+	/**
+	 *	Resolves with the last result instead of rejecting with an `UnacceptableResultError` when the operation gives
+	 *	up after an unacceptable result. Aborted operations, and operations whose hooks throw, still reject.
+	 *
+	 *	@default false
+	 */
+	readonly returnLastResult?: boolean;
+
 	/**
 	 *	The maximum amount of times to retry the operation.
 	 *
@@ -103,10 +228,72 @@ export interface Options {
 	/**
 	 *	Randomizes the timeouts by multiplying with a factor between 1 and 2.
 	 *
+	 *	Ignored when `jitter` is set to anything other than `'none'`.
+	 *
 	 *	@default false
 	 */
 	readonly randomize?: boolean;
 
+	/**
+	 *	Spreads retry delays to avoid many clients retrying at the same moment.
+	 *
+	 *	- `'none'` - the delay is used as is.
+	 *	- `'full'` - a random delay between `0` and the computed delay.
+	 *	- `'equal'` - half of the computed delay plus a random delay between `0` and the other half.
+	 *	- `'decorrelated'` - a random delay between `minTimeout` and three times the previous delay.
+	 *
+	 *	The jittered delay is still capped by `maxTimeout`.
+	 *
+	 *	@default 'none'
+	 */
+	readonly jitter?: JitterMode;
+
+	/**
+	 *	The source of randomness used by `jitter` and `randomize`. Must return a number in the `[0, 1)` range.
+	 *
+	 *	Useful for making retry delays deterministic in tests.
+	 *
+	 *	@default Math.random
+	 */
+	readonly random?: () => number;
+
+	/**
+	 *	A custom backoff strategy used to compute the delay before each retry.
+	 *
+	 *	Accepts either a strategy object or a function. When set, it replaces the built-in exponential formula, so
+	 *	`factor`, `minTimeout` and `randomize` are ignored. The result is still capped by `maxTimeout`.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry, fibonacciBackoff } from '@stimulcross/p-retry';
+	 *
+	 *	const result = await pRetry(run, {
+	 *		backoff: fibonacciBackoff({ initialDelay: 100 })
+	 *	});
+	 *	```
+	 */
+	readonly backoff?: BackoffStrategy | BackoffFunction;
+
+	/**
+	 *	Resolves a server-provided retry hint from the error of a failed attempt, such as a `Retry-After` header.
+	 *
+	 *	Returns the delay in milliseconds or the `Date` to retry at, or `undefined` to use the computed delay.
+	 *	If this option is not set or returns `undefined`, the `retryAfter` property of the error is used, if present.
+	 *
+	 *	The hint replaces the computed delay for that attempt and is capped by `maxTimeout` and the remaining
+	 *	`maxRetryTime` budget.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry, getRetryAfterFromHeaders } from '@stimulcross/p-retry';
+	 *
+	 *	const result = await pRetry(run, {
+	 *		retryAfter: error => error.response && getRetryAfterFromHeaders(error.response.headers)
+	 *	});
+	 *	```
+	 */
+	readonly retryAfter?: (error: Error, attemptNumber: number) => number | Date | undefined;
+
 	/**
 	 *	The maximum time (in milliseconds) that the retried operation is allowed to run.
 	 *
@@ -114,6 +301,73 @@ export interface Options {
 	 */
 	readonly maxRetryTime?: number;
 
+	/**
+	 *	Enforces `maxRetryTime` as a hard deadline for the whole operation.
+	 *
+	 *	By default, `maxRetryTime` is only checked after an attempt fails, so a slow attempt can overrun it.
+	 *	In strict mode, an attempt still running when the deadline passes is interrupted (its `signal` is aborted),
+	 *	and the operation rejects with a `RetryTimeoutError` whose `cause` is the error of the last failed attempt.
+	 *
+	 *	@default false
+	 */
+	readonly strictMaxRetryTime?: boolean;
+
+	/**
+	 *	The maximum time (in milliseconds) a single attempt is allowed to run.
+	 *
+	 *	When exceeded, the attempt's `signal` is aborted and the attempt fails with an `AttemptTimeoutError`,
+	 *	which is retried like any other error.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry } from '@stimulcross/p-retry';
+	 *
+	 *	const result = await pRetry(
+	 *		(attemptNumber, { signal }) => fetch('https://sindresorhus.com/unicorn', { signal }),
+	 *		{ attemptTimeout: 5000 }
+	 *	);
+	 *	```
+	 *
+	 *	@default Infinity
+	 */
+	readonly attemptTimeout?: number;
+
+	/**
+	 *	Starts another attempt in parallel when the running one has not settled after this many milliseconds, and
+	 *	resolves with whichever attempt succeeds first. The `signal` of the attempts still running is then aborted.
+	 *
+	 *	Hedged attempts count against `retries` and `maxRetryTime` like sequential ones, and no hedge is started once
+	 *	either is used up. `onFailedAttempt` is called for every failed attempt, with the `attemptNumber` of that
+	 *	attempt. The decision whether to retry is only made when no other attempt is running any more. A hedge the
+	 *	`circuitBreaker` does not let through is skipped, and the running attempts keep going.
+	 *
+	 *	Only used by `pRetry` and `makeRetriable`. The delay is measured with the clock of the `scheduler`, but like
+	 *	`attemptTimeout`, it is waited out with a real timer.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry } from '@stimulcross/p-retry';
+	 *
+	 *	// Send a second request if the first one is slower than 200 ms
+	 *	const result = await pRetry(
+	 *		(attemptNumber, { signal }) => fetch('https://sindresorhus.com/unicorn', { signal }),
+	 *		{ hedgeDelay: 200, retries: 3 }
+	 *	);
+	 *	```
+	 *
+	 *	@default Infinity
+	 */
+	readonly hedgeDelay?: number;
+
+	/**
+	 *	The maximum number of hedged attempts running in parallel with the first one.
+	 *
+	 *	Only used together with `hedgeDelay`.
+	 *
+	 *	@default 1
+	 */
+	readonly maxHedges?: number;
+
 	/**
 	 *	You can abort retrying using [`AbortController`](https://developer.mozilla.org/en-US/docs/Web/API/AbortController).
 	 *
@@ -137,10 +391,68 @@ export interface Options {
 	 */
 	readonly signal?: AbortSignal;
 
+	/**
+	 *	A circuit breaker guarding the retried operation.
+	 *
+	 *	Every attempt is reported to the breaker. While the circuit is open, no attempt is made and the operation
+	 *	rejects immediately with a `CircuitOpenError`, which is not retried. A single breaker can be shared by many
+	 *	`pRetry` calls and `makeRetriable` wrappers that call the same backend.
+	 */
+	readonly circuitBreaker?: CircuitBreaker;
+
+	/**
+	 *	A retry budget shared by many operations that caps how many retries they may perform together.
+	 *
+	 *	Successful operations are reported to the budget, and a retry is only made if the budget allows it.
+	 *	When the budget is exhausted, the operation stops retrying and rejects with the last error, whose
+	 *	`getGiveUpReason()` is `'retry-budget-exhausted'`.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry, TokenBucketRetryBudget } from '@stimulcross/p-retry';
+	 *
+	 *	const retryBudget = new TokenBucketRetryBudget({ capacity: 20, refillRate: 2 });
+	 *
+	 *	await Promise.all(jobs.map(job => pRetry(job, { retryBudget })));
+	 *	```
+	 */
+	readonly retryBudget?: RetryBudget;
+
+	/**
+	 *	Rejects with a `RetryError` holding the errors and timings of every attempt instead of the last error.
+	 *
+	 *	The error the operation would have rejected with otherwise is available as the `cause` of the `RetryError`.
+	 *	Aborted operations still reject with an `AbortError`. The record of every attempt is kept in memory until the
+	 *	operation settles, so prefer a finite `retries` with this option.
+	 *
+	 *	@default false
+	 */
+	readonly aggregateErrors?: boolean;
+
+	/**
+	 *	The clock and timer used to measure elapsed time and to wait between attempts.
+	 *
+	 *	Defaults to `Date.now()` and `setTimeout`. Pass a `VirtualClock` to run a full retry sequence instantly in
+	 *	tests. The `attemptTimeout` and `hedgeDelay` options, and the deadline of `strictMaxRetryTime`, still use real timers.
+	 *
+	 *	@example
+	 *	```js
+	 *	import { pRetry, VirtualClock } from '@stimulcross/p-retry';
+	 *
+	 *	const clock = new VirtualClock();
+	 *
+	 *	await pRetry(run, { retries: 3, scheduler: clock });
+	 *
+	 *	console.log(clock.delays);
+	 *	```
+	 */
+	readonly scheduler?: Scheduler;
+
 	/**
 	 *	Prevents retry timeouts from keeping the process alive.
 	 *
-	 *	Only affects platforms with a `.unref()` method on timeouts, such as Node.js.
+	 *	Only affects platforms with a `.unref()` method on timeouts, such as Node.js, and is ignored when a custom
+	 *	`scheduler` is used.
 	 *
 	 *	@default false
 	 */
@@ -0,0 +1,46 @@
+import { type BackoffFunction, type BackoffStrategy } from './backoff-strategy.interface';
+import { type Scheduler } from './scheduler.interface';
+
+/**
+ * Options for configuring `pPoll` and `waitUntil`.
+ */
+export interface PollOptions {
+	/**
+	 *	The interval in milliseconds between polls, or a backoff strategy computing it.
+	 *
+	 *	@default 1000
+	 */
+	readonly interval?: number | BackoffStrategy | BackoffFunction;
+
+	/**
+	 *	The maximum interval in milliseconds between polls, useful with growing backoff strategies.
+	 *
+	 *	@default Infinity
+	 */
+	readonly maxInterval?: number;
+
+	/**
+	 *	The overall time in milliseconds after which polling rejects with a `PollTimeoutError`. A poll that is still
+	 *	running when the timeout passes is interrupted and its signal is aborted.
+	 *
+	 *	@default Infinity
+	 */
+	readonly timeout?: number;
+
+	/**
+	 *	Stops polling and rejects with an `AbortError` when aborted.
+	 */
+	readonly signal?: AbortSignal;
+
+	/**
+	 *	Prevents the poll timers from keeping the process alive.
+	 *
+	 *	@default false
+	 */
+	readonly unref?: boolean;
+
+	/**
+	 *	The clock and timer used to measure the timeout and to wait between polls.
+	 */
+	readonly scheduler?: Scheduler;
+}
@@ -0,0 +1,39 @@
+import { type Options } from './options.interface';
+import { type RetryPolicy } from '../retry-policy';
+
+/**
+ * Options for `makeRetriable`: plain options, a `RetryPolicy`, or a function deriving either of them from the call.
+ *
+ * The function is called on every call with the same `this` and arguments as the wrapped function, so that the
+ * options, including the `signal`, may depend on the call.
+ */
+export type RetriableOptions<Args extends readonly unknown[] = readonly unknown[], This = unknown> =
+	Options | RetryPolicy | ((this: This, ...args: Args) => Options | RetryPolicy);
+
+/**
+ * Settings for `makeRetriable` that change how the wrapped function is called.
+ */
+export interface RetriableSettings {
+	/**
+	 *	Appends the attempt context, including the per-attempt `signal`, to the arguments of every call of the wrapped
+	 *	function. Pass the signal on, so that attempts interrupted by `attemptTimeout`, a strict `maxRetryTime` or a
+	 *	faster hedge are cancelled instead of running on in the background.
+	 *
+	 *	@default false
+	 */
+	readonly appendContext?: boolean;
+}
+
+/**
+ * A function returned by `makeRetriable`, whose every call is retried on failure.
+ */
+export interface RetriableFunction<Args extends readonly unknown[], Res, This = unknown> {
+	(this: This, ...args: Args): Promise<Res>;
+
+	/**
+	 * Returns a new retriable function with the given options applied on top of the options of this one.
+	 *
+	 * @param overrides - Options, a `RetryPolicy`, or a function deriving either of them from the call.
+	 */
+	withOptions(overrides: RetriableOptions<Args, This>): RetriableFunction<Args, Res, This>;
+}
@@ -0,0 +1,53 @@
+import { type Options } from './options.interface';
+
+/**
+ * Options for configuring `pRetryAll`.
+ */
+export interface RetryAllOptions extends Options {
+	/**
+	 *	The maximum number of attempts running at the same time. Items waiting for their next attempt do not take up
+	 *	a slot.
+	 *
+	 *	@default Infinity
+	 */
+	readonly concurrency?: number;
+}
+
+/**
+ * The outcome of an item run by `pRetryAll` that succeeded.
+ */
+export interface RetryFulfilledResult<T> {
+	readonly status: 'fulfilled';
+
+	/**
+	 * The value the item resolved with.
+	 */
+	readonly value: T;
+
+	/**
+	 * The number of attempts made for the item.
+	 */
+	readonly attemptCount: number;
+}
+
+/**
+ * The outcome of an item run by `pRetryAll` that gave up.
+ */
+export interface RetryRejectedResult {
+	readonly status: 'rejected';
+
+	/**
+	 * The error `pRetry` would have rejected with for the item.
+	 */
+	readonly reason: Error;
+
+	/**
+	 * The number of attempts made for the item, or `0` if it was aborted before the first attempt.
+	 */
+	readonly attemptCount: number;
+}
+
+/**
+ * The outcome of an item run by `pRetryAll`. Mirrors `PromiseSettledResult`, with the number of attempts made.
+ */
+export type RetrySettledResult<T> = RetryFulfilledResult<T> | RetryRejectedResult;
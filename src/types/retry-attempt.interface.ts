@@ -0,0 +1,26 @@
+import { type AttemptContext } from './attempt-context.interface';
+import { type RetryContext } from './retry-context.interface';
+
+/**
+ * An attempt yielded by `retrying`.
+ *
+ * Every attempt must be settled with either {@link fail} or {@link succeed} before the next iteration.
+ */
+export interface RetryAttempt extends AttemptContext {
+	/**
+	 * The retry context of the previous failed attempt, or `undefined` for the first attempt.
+	 */
+	readonly retryContext?: RetryContext;
+
+	/**
+	 * Marks the attempt as failed. The iterator retries it, or throws the final error if it gives up.
+	 *
+	 * @param error - The error the attempt failed with.
+	 */
+	fail(error: unknown): void;
+
+	/**
+	 * Marks the attempt as successful. The iterator completes.
+	 */
+	succeed(): void;
+}
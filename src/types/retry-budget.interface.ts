@@ -0,0 +1,16 @@
+/**
+ * A budget shared by many retried operations that caps how many retries they may perform together.
+ *
+ * Implement this interface to plug a custom budget into the `retryBudget` option.
+ */
+export interface RetryBudget {
+	/**
+	 * Called when an operation succeeds.
+	 */
+	recordSuccess(): void;
+
+	/**
+	 * Called before every retry. Returns `false` if the budget is exhausted and the retry must not be made.
+	 */
+	tryWithdraw(): boolean;
+}
@@ -1,5 +1,59 @@
 export interface RetryContext {
+	/**
+	 * The error of the failed attempt.
+	 */
 	readonly error: Error;
+
+	/**
+	 * Whether the error is considered fatal by the built-in classifier or by the `isFatalError` option.
+	 *
+	 * Always `false` unless `shouldRetryFatalErrors` is enabled, because fatal errors are not retried otherwise.
+	 */
+	readonly isFatal: boolean;
+
+	/**
+	 * The number of the failed attempt, starting from 1.
+	 */
 	readonly attemptNumber: number;
+
+	/**
+	 * The number of retries left.
+	 */
 	readonly retriesLeft: number;
+
+	/**
+	 * The delay in milliseconds requested by the failed attempt, resolved from the `retryAfter` option or from the
+	 * `retryAfter` property of the error. `undefined` if no hint was provided.
+	 */
+	readonly retryAfter?: number;
+
+	/**
+	 * The time, in milliseconds since the epoch, the first attempt started at.
+	 */
+	readonly startTime: number;
+
+	/**
+	 * The time in milliseconds elapsed since the first attempt started.
+	 */
+	readonly elapsedTime: number;
+
+	/**
+	 * The time in milliseconds left in the `maxRetryTime` budget, or `Infinity` if it is not limited.
+	 */
+	readonly remainingTime: number;
+
+	/**
+	 * The time in milliseconds the failed attempt took.
+	 */
+	readonly attemptDuration: number;
+
+	/**
+	 * The delay in milliseconds to be applied before the next attempt, or `0` if no retries are left.
+	 */
+	readonly delay: number;
+
+	/**
+	 * The errors of the attempts before the failed one, in order. Only the 100 most recent errors are kept.
+	 */
+	readonly previousErrors: readonly Error[];
 }
@@ -0,0 +1,6 @@
+import { type RetryContext } from './retry-context.interface';
+
+/**
+ * A function that decides whether a failed attempt should be retried. Compatible with the `shouldRetry` option.
+ */
+export type RetryPredicate = (context: RetryContext) => boolean | Promise<boolean>;
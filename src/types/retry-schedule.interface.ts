@@ -0,0 +1,83 @@
+/**
+ * A planned wait between two attempts in a {@link RetrySchedule}.
+ */
+export interface RetryScheduleEntry {
+	/**
+	 * The number of the failed attempt the wait follows.
+	 */
+	readonly attemptNumber: number;
+
+	/**
+	 * The shortest possible wait in milliseconds.
+	 */
+	readonly minDelay: number;
+
+	/**
+	 * The longest possible wait in milliseconds.
+	 */
+	readonly maxDelay: number;
+
+	/**
+	 * The earliest time in milliseconds, since the first attempt started, at which the next attempt starts.
+	 */
+	readonly minElapsedTime: number;
+
+	/**
+	 * The latest time in milliseconds, since the first attempt started, at which the next attempt starts.
+	 */
+	readonly maxElapsedTime: number;
+
+	/**
+	 * The option that shortened the longest possible wait, if any.
+	 */
+	readonly clampedBy?: 'maxTimeout' | 'maxRetryTime';
+}
+
+/**
+ * The planned delays of a retried operation that fails every attempt, as returned by `previewRetrySchedule`.
+ */
+export interface RetrySchedule {
+	/**
+	 * The waits between attempts, in order.
+	 */
+	readonly entries: readonly RetryScheduleEntry[];
+
+	/**
+	 * The number of attempts made in the worst case.
+	 */
+	readonly totalAttempts: number;
+
+	/**
+	 * The shortest possible time in milliseconds from the first attempt until the operation gives up.
+	 */
+	readonly minTotalTime: number;
+
+	/**
+	 * The longest possible time in milliseconds from the first attempt until the operation gives up.
+	 */
+	readonly maxTotalTime: number;
+
+	/**
+	 * Why the operation gives up in the worst case, or `undefined` if the schedule was truncated at `maxEntries`.
+	 */
+	readonly stopReason?: 'retries-exhausted' | 'max-retry-time';
+}
+
+/**
+ * Options for configuring `previewRetrySchedule`.
+ */
+export interface RetrySchedulePreviewOptions {
+	/**
+	 * The assumed duration of every attempt in milliseconds, for example, the `attemptTimeout`.
+	 *
+	 * @default 0
+	 */
+	readonly attemptDuration?: number;
+
+	/**
+	 * The maximum number of entries to compute, so that unbounded schedules still return.
+	 *
+	 * @default 1000
+	 */
+	readonly maxEntries?: number;
+}
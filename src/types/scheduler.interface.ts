@@ -0,0 +1,18 @@
+/**
+ * The clock and timer used by `pRetry` to measure time and to wait between attempts.
+ *
+ * Implement this interface to plug a custom clock into the `scheduler` option, for example, a virtual clock in tests.
+ */
+export interface Scheduler {
+	/**
+	 * Returns the current time in milliseconds.
+	 */
+	now(): number;
+
+	/**
+	 * Waits for the given number of milliseconds.
+	 *
+	 * Must reject with an `AbortError` if the signal is aborted before or while waiting.
+	 */
+	sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { throwIfAborted } from './throw-if-aborted.util';
+import { AbortError } from '../errors';
+
+/**
+ * Resolves like the promise, but rejects with an `AbortError` as soon as the signal is aborted, without waiting for
+ * the promise to settle.
+ *
+ * @internal
+ */
+export async function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	// The promise may reject after the signal was aborted, when nobody is waiting for it any more
+	promise.catch(() => {});
+
+	throwIfAborted(signal);
+
+	if (!signal) {
+		return await promise;
+	}
+
+	let abortHandler: (() => void) | undefined;
+
+	try {
+		return await Promise.race([
+			promise,
+			new Promise<never>((_resolve, reject) => {
+				abortHandler = () => reject(AbortError.fromSignal(signal));
+				signal.addEventListener('abort', abortHandler, { once: true });
+			}),
+		]);
+	} finally {
+		signal.removeEventListener('abort', abortHandler!);
+	}
+}
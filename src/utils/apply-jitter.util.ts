@@ -0,0 +1,28 @@
+import { type JitterMode } from '../types';
+
+export function applyJitter(
+	delay: number,
+	previousDelay: number,
+	options: { jitter: JitterMode; minTimeout: number; random: () => number },
+): number {
+	switch (options.jitter) {
+		case 'full': {
+			return Math.round(options.random() * delay);
+		}
+
+		case 'equal': {
+			return Math.round(delay / 2 + (options.random() * delay) / 2);
+		}
+
+		case 'decorrelated': {
+			const lowerBound = Math.max(options.minTimeout, 1);
+			const upperBound = Math.max(previousDelay * 3, lowerBound);
+
+			return Math.round(lowerBound + options.random() * (upperBound - lowerBound));
+		}
+
+		default: {
+			return delay;
+		}
+	}
+}
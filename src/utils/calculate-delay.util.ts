@@ -1,13 +1,27 @@
-import { type MakeRequired, type Options } from '../types';
+import { applyJitter } from './apply-jitter.util';
+import { type MakeRequired, type Options, type RetryContext } from '../types';
 
 export function calculateDelay(
 	attempt: number,
-	options: MakeRequired<Options, 'factor' | 'minTimeout' | 'maxTimeout'>,
+	previousDelay: number,
+	context: Omit<RetryContext, 'delay'>,
+	options: MakeRequired<Options, 'factor' | 'minTimeout' | 'maxTimeout' | 'jitter' | 'random'>,
 ) {
-	const random = options.randomize ? Math.random() + 1 : 1;
+	let timeout: number;
+
+	if (options.backoff) {
+		timeout =
+			typeof options.backoff === 'function'
+				? options.backoff(attempt, previousDelay, context)
+				: options.backoff.computeDelay(attempt, previousDelay, context);
+	} else {
+		// `randomize` is the legacy jitter and only applies when no jitter mode is set
+		const random = options.randomize && options.jitter === 'none' ? options.random() + 1 : 1;
+
+		timeout = Math.round(random * Math.max(options.minTimeout, 1) * options.factor ** (attempt - 1));
+	}
 
-	let timeout = Math.round(random * Math.max(options.minTimeout, 1) * options.factor ** (attempt - 1));
 	timeout = Math.min(timeout, options.maxTimeout);
 
-	return timeout;
+	return Math.min(applyJitter(timeout, previousDelay, options), options.maxTimeout);
 }
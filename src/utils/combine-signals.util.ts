@@ -0,0 +1,10 @@
+/**
+ * Returns a signal that aborts when any of the given signals aborts, or `undefined` if none is given.
+ *
+ * @internal
+ */
+export function combineSignals(...signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+	const definedSignals = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+
+	return definedSignals.length > 1 ? AbortSignal.any(definedSignals) : definedSignals[0];
+}
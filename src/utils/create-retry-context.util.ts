@@ -1,12 +1,36 @@
 import { type RetryContext } from '../types';
 
-export function createRetryContext(error: Error, attemptNumber: number, retries: number): RetryContext {
+/** @internal */
+export interface RetryContextState {
+	readonly error: Error;
+	readonly isFatal: boolean;
+	readonly attemptNumber: number;
+	// More attempts than the failed one may have been started when attempts run in parallel
+	readonly attemptsStarted?: number;
+	readonly retries: number;
+	readonly retryAfter?: number;
+	readonly startTime: number;
+	readonly attemptStartTime: number;
+	readonly maxRetryTime: number;
+	readonly previousErrors: readonly Error[];
+	readonly now: number;
+}
+
+export function createRetryContext(state: RetryContextState): Omit<RetryContext, 'delay'> {
 	// Minus 1 from attemptNumber because the first attempt does not count as a retry
-	const retriesLeft = retries - (attemptNumber - 1);
+	const retriesLeft = state.retries - ((state.attemptsStarted ?? state.attemptNumber) - 1);
+	const elapsedTime = state.now - state.startTime;
 
 	return Object.freeze({
-		error,
-		attemptNumber,
+		error: state.error,
+		isFatal: state.isFatal,
+		attemptNumber: state.attemptNumber,
 		retriesLeft,
+		retryAfter: state.retryAfter,
+		startTime: state.startTime,
+		elapsedTime,
+		remainingTime: Math.max(state.maxRetryTime - elapsedTime, 0),
+		attemptDuration: state.now - state.attemptStartTime,
+		previousErrors: Object.freeze([...state.previousErrors]),
 	});
 }
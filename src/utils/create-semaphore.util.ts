@@ -0,0 +1,67 @@
+/** @internal */
+export interface Semaphore {
+	/**
+	 * Waits for a free slot and returns a function that releases it. Resolves without taking a slot once the signal
+	 * is aborted, so that the caller can observe the abort.
+	 */
+	acquire(signal?: AbortSignal): Promise<() => void>;
+}
+
+/**
+ * Creates a FIFO semaphore limiting the number of concurrently held slots.
+ *
+ * @internal
+ */
+export function createSemaphore(concurrency: number): Semaphore {
+	const waiting: Array<() => void> = [];
+	let activeCount = 0;
+
+	const createRelease = () => {
+		let isReleased = false;
+
+		return () => {
+			if (isReleased) {
+				return;
+			}
+
+			isReleased = true;
+
+			// Hands the slot over to the next waiting caller
+			const next = waiting.shift();
+
+			if (next) {
+				next();
+			} else {
+				activeCount--;
+			}
+		};
+	};
+
+	return {
+		async acquire(signal) {
+			if (signal?.aborted) {
+				return () => {};
+			}
+
+			if (activeCount < concurrency) {
+				activeCount++;
+				return createRelease();
+			}
+
+			return await new Promise(resolve => {
+				const grant = () => {
+					signal?.removeEventListener('abort', abortHandler);
+					resolve(createRelease());
+				};
+
+				const abortHandler = () => {
+					waiting.splice(waiting.indexOf(grant), 1);
+					resolve(() => {});
+				};
+
+				waiting.push(grant);
+				signal?.addEventListener('abort', abortHandler, { once: true });
+			});
+		},
+	};
+}
@@ -0,0 +1,14 @@
+import { sleep } from './sleep.util';
+import { type Scheduler } from '../types';
+
+/**
+ * Creates the default scheduler backed by `Date.now()` and `setTimeout`.
+ *
+ * @internal
+ */
+export function createSystemScheduler(unref: boolean): Scheduler {
+	return {
+		now: () => Date.now(),
+		sleep: async (ms, signal) => await sleep(ms, signal, unref),
+	};
+}
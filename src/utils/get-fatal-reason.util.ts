@@ -0,0 +1,48 @@
+import { isNetworkError } from './is-network-error.util';
+import { isNodeNetworkError } from './is-node-network-error.util';
+import { AbortError, CircuitOpenError, RetryTimeoutError } from '../errors';
+import { type GiveUpReason, type Options } from '../types';
+
+/**
+ * Returns the reason the error must not be retried, or `undefined` if it may be retried.
+ *
+ * `AbortError`, `RetryTimeoutError` and `CircuitOpenError` are always fatal. Other errors are classified by
+ * `isFatalError` or, by default, by the built-in rule that bails out on `TypeError`s that are neither `fetch` network
+ * errors nor transient Node.js network errors.
+ *
+ * @internal
+ */
+export function getFatalReason(
+	error: unknown,
+	options: Pick<Options, 'isFatalError' | 'networkErrorMatchers'> = {},
+): GiveUpReason | undefined {
+	if (error instanceof AbortError) {
+		return 'aborted';
+	}
+
+	if (error instanceof RetryTimeoutError) {
+		return 'max-retry-time';
+	}
+
+	if (error instanceof CircuitOpenError) {
+		return 'circuit-open';
+	}
+
+	if (options.isFatalError === false) {
+		return undefined;
+	}
+
+	if (options.isFatalError) {
+		return error instanceof Error && options.isFatalError(error) ? 'non-retryable' : undefined;
+	}
+
+	if (
+		error instanceof TypeError &&
+		!isNetworkError(error, options.networkErrorMatchers) &&
+		!isNodeNetworkError(error)
+	) {
+		return 'non-retryable';
+	}
+
+	return undefined;
+}
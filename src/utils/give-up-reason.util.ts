@@ -0,0 +1,32 @@
+import { type GiveUpReason } from '../types';
+
+const giveUpReasons = new WeakMap<Error, GiveUpReason>();
+
+/** @internal */
+export function markGiveUpReason<E extends Error>(error: E, reason: GiveUpReason): E {
+	giveUpReasons.set(error, reason);
+
+	return error;
+}
+
+/**
+ * Returns the reason a retried operation gave up with the given error, if it was annotated with one.
+ *
+ * The reason is the same as the one passed to the `onGiveUp` hook.
+ *
+ * @param error - The error the operation rejected with.
+ *
+ * @example
+ * ```js
+ * try {
+ * 	await pRetry(run, { retryBudget });
+ * } catch (error) {
+ * 	if (getGiveUpReason(error) === 'retry-budget-exhausted') {
+ * 		// …
+ * 	}
+ * }
+ * ```
+ */
+export function getGiveUpReason(error: unknown): GiveUpReason | undefined {
+	return error instanceof Error ? giveUpReasons.get(error) : undefined;
+}
@@ -1,4 +1,19 @@
 export * from './create-retry-context.util';
 export * from './calculate-delay.util';
+export * from './apply-jitter.util';
 export * from './is-network-error.util';
 export * from './throw-if-aborted.util';
+export * from './parse-retry-after.util';
+export * from './give-up-reason.util';
+export * from './sleep.util';
+export * from './get-fatal-reason.util';
+export * from './is-node-network-error.util';
+export * from './validate-options.util';
+export * from './omit-undefined.util';
+export * from './create-system-scheduler.util';
+export * from './resolve-schedule-options.util';
+export * from './resolve-options.util';
+export * from './create-semaphore.util';
+export * from './to-error.util';
+export * from './abortable.util';
+export * from './combine-signals.util';
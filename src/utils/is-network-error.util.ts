@@ -1,5 +1,7 @@
 // Source: https://github.com/sindresorhus/is-network-error/blob/main/index.js
 
+import { type NetworkErrorMatcher } from '../types';
+
 const isError = (value: unknown): value is Error =>
 	value instanceof Error || Object.prototype.toString.call(value) === '[object Error]';
 
@@ -14,7 +16,31 @@ const errorMessages = new Set([
 	'terminated', // Undici (Node.js)
 ]);
 
-export function isNetworkError(error: unknown) {
+const matchesNetworkError = (error: Error, matcher: NetworkErrorMatcher): boolean => {
+	if (typeof matcher === 'string') {
+		return error.message === matcher;
+	}
+
+	if (matcher instanceof RegExp) {
+		return matcher.test(error.message);
+	}
+
+	return matcher(error);
+};
+
+/**
+ * Checks whether the error is a network error thrown by `fetch`.
+ *
+ * This is done on a best case basis, as different browsers and runtimes use different messages to indicate this.
+ *
+ * @param error - The value to check.
+ * @param extraMatchers - Additional matchers for network errors the built-in list does not recognize.
+ */
+export function isNetworkError(error: unknown, extraMatchers: readonly NetworkErrorMatcher[] = []): boolean {
+	if (isError(error) && extraMatchers.some(matcher => matchesNetworkError(error, matcher))) {
+		return true;
+	}
+
 	const isValid = error && isError(error) && error.name === 'TypeError' && typeof error.message === 'string';
 
 	if (!isValid) {
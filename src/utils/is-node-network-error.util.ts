@@ -0,0 +1,64 @@
+const transientErrorCodes = new Set([
+	// Node.js `net`, `http` and `dns` system errors
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'EHOSTUNREACH',
+	'EHOSTDOWN',
+	'ENETUNREACH',
+	'ENETDOWN',
+	'ENETRESET',
+	'EAI_AGAIN',
+	// Undici (Node.js `fetch`)
+	'UND_ERR_SOCKET',
+	'UND_ERR_CONNECT_TIMEOUT',
+	'UND_ERR_HEADERS_TIMEOUT',
+	'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Checks whether the error is a transient Node.js network error.
+ *
+ * Recognizes the standard transient system error codes, such as `ECONNRESET`, `ETIMEDOUT` and `EAI_AGAIN`,
+ * and the undici socket and timeout codes. The `cause` chain and the `errors` of an `AggregateError` are searched
+ * as well, so `fetch failed` errors thrown by undici are classified by their underlying cause.
+ *
+ * @param error - The value to check.
+ *
+ * @example
+ * ```js
+ * import { pRetry, isNodeNetworkError } from '@stimulcross/p-retry';
+ *
+ * await pRetry(run, { shouldRetry: ({ error }) => isNodeNetworkError(error) });
+ * ```
+ */
+export function isNodeNetworkError(error: unknown): boolean {
+	const visited = new Set<unknown>();
+	const queue: unknown[] = [error];
+
+	while (queue.length > 0) {
+		const current = queue.shift();
+
+		if (typeof current !== 'object' || current === null || visited.has(current)) {
+			continue;
+		}
+
+		visited.add(current);
+
+		const { code, cause, errors } = current as { code?: unknown; cause?: unknown; errors?: unknown };
+
+		if (typeof code === 'string' && transientErrorCodes.has(code)) {
+			return true;
+		}
+
+		queue.push(cause);
+
+		if (Array.isArray(errors)) {
+			queue.push(...errors);
+		}
+	}
+
+	return false;
+}
@@ -0,0 +1,4 @@
+/** @internal */
+export function omitUndefined<T extends object>(value: T): T {
+	return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
@@ -0,0 +1,76 @@
+import { type HeadersLike } from '../types';
+
+/**
+ * Parses the value of a `Retry-After` header into a delay in milliseconds.
+ *
+ * Supports both the delay-seconds and the HTTP-date forms. Returns `undefined` if the value cannot be parsed.
+ * Dates in the past result in `0`.
+ *
+ * @param value - The header value.
+ * @param now - The current time in milliseconds, used to resolve HTTP dates.
+ *
+ * @example
+ * ```js
+ * parseRetryAfter('120'); // → 120000
+ * parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT'); // → milliseconds until that date
+ * ```
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+	const trimmed = value?.trim();
+
+	if (!trimmed) {
+		return undefined;
+	}
+
+	if (/^\d+$/u.test(trimmed)) {
+		return Number(trimmed) * 1000;
+	}
+
+	const date = Date.parse(trimmed);
+
+	return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Parses the value of a `RateLimit-Reset` header into a delay in milliseconds.
+ *
+ * The value is the number of seconds until the quota resets. Returns `undefined` if the value cannot be parsed.
+ *
+ * @param value - The header value.
+ */
+export function parseRateLimitReset(value: string | null | undefined): number | undefined {
+	const trimmed = value?.trim();
+
+	if (!trimmed || !/^\d+$/u.test(trimmed)) {
+		return undefined;
+	}
+
+	return Number(trimmed) * 1000;
+}
+
+/**
+ * Reads a retry hint in milliseconds from the `Retry-After` or `RateLimit-Reset` response headers.
+ *
+ * `Retry-After` takes precedence. Returns `undefined` if neither header holds a valid value.
+ *
+ * @param headers - The response headers, for example `response.headers` of a `fetch` response.
+ * @param now - The current time in milliseconds, used to resolve HTTP dates.
+ */
+export function getRetryAfterFromHeaders(headers: HeadersLike, now: number = Date.now()): number | undefined {
+	return parseRetryAfter(headers.get('retry-after'), now) ?? parseRateLimitReset(headers.get('ratelimit-reset'));
+}
+
+/** @internal */
+export function normalizeRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+	if (value instanceof Date) {
+		const time = value.getTime();
+
+		return Number.isNaN(time) ? undefined : Math.max(time - now, 0);
+	}
+
+	if (typeof value === 'number' && Number.isFinite(value)) {
+		return Math.max(value, 0);
+	}
+
+	return undefined;
+}
@@ -0,0 +1,37 @@
+import { createSystemScheduler } from './create-system-scheduler.util';
+import { resolveScheduleOptions } from './resolve-schedule-options.util';
+import { type Options, type RetryContext } from '../types';
+
+/**
+ * Applies the defaults of all options.
+ *
+ * @internal
+ */
+export function resolveOptions(options: Options) {
+	return {
+		...resolveScheduleOptions(options),
+		strictMaxRetryTime: options.strictMaxRetryTime ?? false,
+		retryAfter: options.retryAfter,
+		onFailedAttempt: options.onFailedAttempt ?? (() => {}),
+		shouldRetry: options.shouldRetry ?? (({ isFatal }: RetryContext) => !isFatal),
+		networkErrorMatchers: options.networkErrorMatchers,
+		isFatalError: options.isFatalError,
+		shouldRetryFatalErrors: options.shouldRetryFatalErrors ?? false,
+		retryOnResult: options.retryOnResult,
+		returnLastResult: options.returnLastResult ?? false,
+		onAttemptStart: options.onAttemptStart,
+		onRetryScheduled: options.onRetryScheduled ?? (() => {}),
+		onSuccess: options.onSuccess ?? (() => {}),
+		onGiveUp: options.onGiveUp ?? (() => {}),
+		onAbort: options.onAbort ?? (() => {}),
+		signal: options.signal,
+		unref: options.unref ?? false,
+		scheduler: options.scheduler ?? createSystemScheduler(options.unref ?? false),
+		attemptTimeout: options.attemptTimeout ?? Number.POSITIVE_INFINITY,
+		hedgeDelay: options.hedgeDelay ?? Number.POSITIVE_INFINITY,
+		maxHedges: options.maxHedges ?? 1,
+		circuitBreaker: options.circuitBreaker,
+		retryBudget: options.retryBudget,
+		aggregateErrors: options.aggregateErrors ?? false,
+	};
+}
@@ -0,0 +1,20 @@
+import { type Options } from '../types';
+
+/**
+ * Applies the defaults of the options that determine the retry schedule.
+ *
+ * @internal
+ */
+export function resolveScheduleOptions(options: Options) {
+	return {
+		retries: options.retries ?? 10,
+		factor: options.factor ?? 2,
+		minTimeout: options.minTimeout ?? 1000,
+		maxTimeout: options.maxTimeout ?? Number.POSITIVE_INFINITY,
+		maxRetryTime: options.maxRetryTime ?? Number.POSITIVE_INFINITY,
+		randomize: options.randomize ?? false,
+		jitter: options.jitter ?? 'none',
+		random: options.random ?? Math.random,
+		backoff: options.backoff,
+	};
+}
@@ -0,0 +1,34 @@
+import { throwIfAborted } from './throw-if-aborted.util';
+import { AbortError } from '../errors';
+
+/** @internal */
+export async function sleep(ms: number, signal?: AbortSignal, unref: boolean = false): Promise<void> {
+	throwIfAborted(signal);
+
+	if (ms <= 0) {
+		return;
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		const timeoutToken = setTimeout(() => {
+			cleanup();
+			resolve();
+		}, ms);
+
+		if (unref) {
+			timeoutToken.unref?.();
+		}
+
+		const abortHandler = () => {
+			cleanup();
+			reject(AbortError.fromSignal(signal!));
+		};
+
+		const cleanup = () => {
+			clearTimeout(timeoutToken);
+			signal?.removeEventListener('abort', abortHandler);
+		};
+
+		signal?.addEventListener('abort', abortHandler, { once: true });
+	});
+}
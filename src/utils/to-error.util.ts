@@ -0,0 +1,6 @@
+/** @internal */
+export function toError(value: unknown): Error {
+	return value instanceof Error
+		? value
+		: new TypeError(`Non-error was thrown: "${value}". You should only throw errors.`);
+}
@@ -0,0 +1,89 @@
+import { type JitterMode, type Options } from '../types';
+
+const nonNegativeNumberFields = ['retries', 'minTimeout', 'maxTimeout', 'maxRetryTime', 'hedgeDelay'] as const;
+const positiveNumberFields = ['factor', 'attemptTimeout', 'maxHedges'] as const;
+const booleanFields = [
+	'randomize',
+	'strictMaxRetryTime',
+	'shouldRetryFatalErrors',
+	'aggregateErrors',
+	'returnLastResult',
+	'unref',
+] as const;
+const jitterModes: readonly JitterMode[] = ['none', 'full', 'equal', 'decorrelated'];
+
+const validateNumber = (options: Options, field: keyof Options, isZeroAllowed: boolean): void => {
+	const value = options[field];
+
+	if (value === undefined) {
+		return;
+	}
+
+	if (typeof value !== 'number') {
+		throw new TypeError(`Expected \`${field}\` to be a number, got ${typeof value}.`);
+	}
+
+	if (Number.isNaN(value) || value < 0 || (value === 0 && !isZeroAllowed)) {
+		throw new RangeError(`Expected \`${field}\` to be a ${isZeroAllowed ? 'non-negative' : 'positive'} number.`);
+	}
+};
+
+/**
+ * Validates retry options and throws an error naming the first invalid option.
+ *
+ * `pRetry` and `RetryPolicy` call it automatically. It is exported so that retry settings loaded from configuration
+ * can be validated before they are used.
+ *
+ * @param options - The options to validate.
+ *
+ * @throws {TypeError} If an option has the wrong type.
+ * @throws {RangeError} If a numeric option is NaN or out of range, `retries` is not an integer, or `minTimeout` is
+ * greater than `maxTimeout`.
+ *
+ * @example
+ * ```js
+ * import { validateOptions } from '@stimulcross/p-retry';
+ *
+ * validateOptions({ retries: 3, minTimeout: 5000, maxTimeout: 1000 });
+ * // RangeError: Expected `minTimeout` to be less than or equal to `maxTimeout`.
+ * ```
+ */
+export function validateOptions(options: Options): void {
+	for (const field of nonNegativeNumberFields) {
+		validateNumber(options, field, true);
+	}
+
+	for (const field of positiveNumberFields) {
+		validateNumber(options, field, false);
+	}
+
+	if (
+		options.minTimeout !== undefined &&
+		options.maxTimeout !== undefined &&
+		options.minTimeout > options.maxTimeout
+	) {
+		throw new RangeError('Expected `minTimeout` to be less than or equal to `maxTimeout`.');
+	}
+
+	if (
+		options.retries !== undefined &&
+		options.retries !== Number.POSITIVE_INFINITY &&
+		!Number.isInteger(options.retries)
+	) {
+		throw new RangeError('Expected `retries` to be a non-negative integer or `Infinity`.');
+	}
+
+	if (options.maxHedges !== undefined && !Number.isInteger(options.maxHedges)) {
+		throw new RangeError('Expected `maxHedges` to be a positive integer.');
+	}
+
+	for (const field of booleanFields) {
+		if (options[field] !== undefined && typeof options[field] !== 'boolean') {
+			throw new TypeError(`Expected \`${field}\` to be a boolean, got ${typeof options[field]}.`);
+		}
+	}
+
+	if (options.jitter !== undefined && !jitterModes.includes(options.jitter)) {
+		throw new TypeError(`Expected \`jitter\` to be one of ${jitterModes.map(mode => `'${mode}'`).join(', ')}.`);
+	}
+}
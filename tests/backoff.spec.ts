@@ -0,0 +1,67 @@
+import {
+	type BackoffStrategy,
+	constantBackoff,
+	decorrelatedJitterBackoff,
+	exponentialBackoff,
+	fibonacciBackoff,
+	linearBackoff,
+	type RetryContext,
+} from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('Backoff strategies', () => {
+	const context: RetryContext = Object.freeze({
+		error: new Error('fixture'),
+		isFatal: false,
+		attemptNumber: 1,
+		retriesLeft: 1,
+		startTime: 0,
+		elapsedTime: 0,
+		remainingTime: Number.POSITIVE_INFINITY,
+		attemptDuration: 0,
+		delay: 0,
+		previousErrors: [],
+	});
+
+	const computeDelays = (strategy: BackoffStrategy, attempts: number): number[] => {
+		const delays: number[] = [];
+		let previousDelay = 0;
+
+		for (let attempt = 1; attempt <= attempts; attempt++) {
+			previousDelay = strategy.computeDelay(attempt, previousDelay, context);
+			delays.push(previousDelay);
+		}
+
+		return delays;
+	};
+
+	it('should return the same delay with constantBackoff', () => {
+		expect(computeDelays(constantBackoff(250), 4)).toEqual([250, 250, 250, 250]);
+	});
+
+	it('should grow by a fixed increment with linearBackoff', () => {
+		expect(computeDelays(linearBackoff({ initialDelay: 100, increment: 50 }), 4)).toEqual([100, 150, 200, 250]);
+		expect(computeDelays(linearBackoff({ initialDelay: 100 }), 3)).toEqual([100, 200, 300]);
+	});
+
+	it('should multiply by factor with exponentialBackoff', () => {
+		expect(computeDelays(exponentialBackoff({ initialDelay: 100, factor: 3 }), 4)).toEqual([100, 300, 900, 2700]);
+		expect(computeDelays(exponentialBackoff(), 3)).toEqual([1000, 2000, 4000]);
+	});
+
+	it('should follow the Fibonacci sequence with fibonacciBackoff', () => {
+		expect(computeDelays(fibonacciBackoff({ initialDelay: 10 }), 7)).toEqual([10, 10, 20, 30, 50, 80, 130]);
+	});
+
+	it('should stay within bounds with decorrelatedJitterBackoff', () => {
+		expect(computeDelays(decorrelatedJitterBackoff({ baseDelay: 100, random: () => 0 }), 3)).toEqual([
+			100, 100, 100,
+		]);
+		expect(computeDelays(decorrelatedJitterBackoff({ baseDelay: 100, random: () => 1 }), 3)).toEqual([
+			300, 900, 2700,
+		]);
+		expect(computeDelays(decorrelatedJitterBackoff({ baseDelay: 100, maxDelay: 500, random: () => 1 }), 3)).toEqual(
+			[300, 500, 500],
+		);
+	});
+});
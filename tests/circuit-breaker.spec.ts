@@ -0,0 +1,235 @@
+import {
+	AbortError,
+	CircuitBreaker,
+	CircuitOpenError,
+	type CircuitStateChangeEvent,
+	type GiveUpEvent,
+	makeRetriable,
+	pRetry,
+	pRetryAll,
+} from '../src';
+import { describe, expect, it, jest } from '@jest/globals';
+import { setTimeout as delay } from 'timers/promises';
+
+describe('CircuitBreaker', () => {
+	const fixtureError = new Error('fixture');
+
+	it('should open after consecutive failures', () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+		breaker.recordFailure();
+		breaker.recordFailure();
+		expect(breaker.state).toBe('closed');
+
+		breaker.recordFailure();
+		expect(breaker.state).toBe('open');
+		expect(breaker.tryAcquire()).toBe(false);
+		expect(breaker.remainingCooldown).toBeGreaterThan(0);
+	});
+
+	it('should open when the failure rate exceeds the threshold', () => {
+		const breaker = new CircuitBreaker({
+			failureThreshold: Number.POSITIVE_INFINITY,
+			failureRateThreshold: 0.5,
+			minimumAttempts: 4,
+			windowSize: 4,
+		});
+
+		breaker.recordFailure();
+		breaker.recordSuccess();
+		breaker.recordFailure();
+		expect(breaker.state).toBe('closed');
+
+		breaker.recordSuccess();
+		breaker.recordFailure();
+		expect(breaker.state).toBe('open');
+	});
+
+	it('should let a limited number of probes through after the cool-down', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 20, halfOpenMaxProbes: 1 });
+
+		breaker.recordFailure();
+		await delay(30);
+
+		expect(breaker.state).toBe('half-open');
+		expect(breaker.tryAcquire()).toBe(true);
+		expect(breaker.tryAcquire()).toBe(false);
+
+		breaker.release();
+		expect(breaker.tryAcquire()).toBe(true);
+
+		breaker.recordSuccess();
+		expect(breaker.state).toBe('closed');
+	});
+
+	it('should reopen when a probe fails', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 20 });
+
+		breaker.recordFailure();
+		await delay(30);
+
+		expect(breaker.tryAcquire()).toBe(true);
+		breaker.recordFailure();
+		expect(breaker.state).toBe('open');
+	});
+
+	it('should emit state change events', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 20 });
+		const events: CircuitStateChangeEvent[] = [];
+		const unsubscribe = breaker.onStateChange(event => events.push(event));
+
+		breaker.recordFailure();
+		await delay(30);
+		breaker.tryAcquire();
+		breaker.recordSuccess();
+		unsubscribe();
+		breaker.recordFailure();
+
+		expect(events).toEqual([
+			{ from: 'closed', to: 'open' },
+			{ from: 'open', to: 'half-open' },
+			{ from: 'half-open', to: 'closed' },
+		]);
+	});
+
+	it('should fail fast with CircuitOpenError in pRetry', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 2 });
+		let attempts = 0;
+
+		expect.assertions(4);
+
+		try {
+			await pRetry(
+				async () => {
+					attempts++;
+					throw fixtureError;
+				},
+				{ retries: 5, minTimeout: 0, circuitBreaker: breaker },
+			);
+		} catch (e: any) {
+			expect(e).toBeInstanceOf(CircuitOpenError);
+			expect(e.cause).toBe(fixtureError);
+		}
+
+		expect(attempts).toBe(2);
+		expect(breaker.state).toBe('open');
+	});
+
+	it('should not count an attempt rejected by an open circuit', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1 });
+		const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+		let calls = 0;
+
+		breaker.recordFailure();
+
+		await expect(
+			pRetry(
+				async () => {
+					calls++;
+				},
+				{ circuitBreaker: breaker, onGiveUp },
+			),
+		).rejects.toBeInstanceOf(CircuitOpenError);
+
+		const [result] = await pRetryAll(
+			[1],
+			() => {
+				calls++;
+			},
+			{ circuitBreaker: breaker },
+		);
+
+		expect(calls).toBe(0);
+		expect(onGiveUp.mock.calls[0][0].attemptNumber).toBe(0);
+		expect(result).toMatchObject({ status: 'rejected', attemptCount: 0 });
+	});
+
+	it('should not count an attempt aborted by the caller as a failure', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1 });
+		const controller = new AbortController();
+
+		setTimeout(() => controller.abort(fixtureError), 10);
+
+		await expect(
+			pRetry(
+				async (_attemptNumber, { signal }) =>
+					new Promise((_resolve, reject) => {
+						signal.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+					}),
+				{ circuitBreaker: breaker, signal: controller.signal },
+			),
+		).rejects.toBeInstanceOf(AbortError);
+
+		expect(breaker.state).toBe('closed');
+		expect(breaker.tryAcquire()).toBe(true);
+	});
+
+	it('should not count an attempt whose onAttemptStart hook throws', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 2 });
+		let calls = 0;
+
+		for (let i = 0; i < 2; i++) {
+			await expect(
+				pRetry(
+					async () => {
+						calls++;
+					},
+					{
+						circuitBreaker: breaker,
+						onAttemptStart: () => {
+							throw fixtureError;
+						},
+					},
+				),
+			).rejects.toBe(fixtureError);
+		}
+
+		expect(calls).toBe(0);
+		expect(breaker.state).toBe('closed');
+	});
+
+	it('should skip a hedge the circuit does not let through', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 20, halfOpenMaxProbes: 1 });
+		let calls = 0;
+
+		breaker.recordFailure();
+		await delay(30);
+
+		const result = await pRetry(
+			async () => {
+				calls++;
+				await delay(100);
+				return 'ok';
+			},
+			{ circuitBreaker: breaker, hedgeDelay: 20 },
+		);
+
+		expect(result).toBe('ok');
+		expect(calls).toBe(1);
+		expect(breaker.state).toBe('closed');
+	});
+
+	it('should be shared across makeRetriable wrappers', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1 });
+		let calls = 0;
+
+		const first = makeRetriable(
+			async () => {
+				calls++;
+				throw fixtureError;
+			},
+			{ retries: 0, circuitBreaker: breaker },
+		);
+		const second = makeRetriable(
+			async () => {
+				calls++;
+				return 'ok';
+			},
+			{ retries: 0, circuitBreaker: breaker },
+		);
+
+		await expect(first()).rejects.toBe(fixtureError);
+		await expect(second()).rejects.toBeInstanceOf(CircuitOpenError);
+		expect(calls).toBe(1);
+	});
+});
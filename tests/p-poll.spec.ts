@@ -0,0 +1,135 @@
+import { AbortError, linearBackoff, pPoll, PollTimeoutError, VirtualClock, waitUntil } from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('pPoll', () => {
+	it('should poll until the condition is satisfied', async () => {
+		const clock = new VirtualClock();
+		const statuses = ['pending', 'pending', 'running', 'done'];
+
+		const job = await pPoll(
+			async pollNumber => ({ status: statuses[pollNumber - 1] }),
+			({ status }) => status === 'done',
+			{ interval: 500, scheduler: clock },
+		);
+
+		expect(job).toEqual({ status: 'done' });
+		expect(clock.delays).toEqual([500, 500, 500]);
+	});
+
+	it('should support backoff intervals capped by maxInterval', async () => {
+		const clock = new VirtualClock();
+
+		await pPoll(
+			async pollNumber => pollNumber,
+			pollNumber => pollNumber === 5,
+			{ interval: linearBackoff({ initialDelay: 100 }), maxInterval: 250, scheduler: clock },
+		);
+
+		expect(clock.delays).toEqual([100, 200, 250, 250]);
+	});
+
+	it('should reject with a PollTimeoutError holding the last value', async () => {
+		const clock = new VirtualClock();
+
+		const error = await pPoll(
+			async pollNumber => ({ pollNumber }),
+			() => false,
+			{
+				interval: 1000,
+				timeout: 3500,
+				scheduler: clock,
+			},
+		).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(PollTimeoutError);
+		expect(error).toMatchObject({ timeout: 3500, pollCount: 4, lastValue: { pollNumber: 4 } });
+		expect(clock.delays).toEqual([1000, 1000, 1000, 500]);
+	});
+
+	it('should interrupt a poll that is still running when the timeout passes', async () => {
+		let signal: AbortSignal | undefined;
+
+		const error = await pPoll(
+			async (_pollNumber, context) => {
+				signal = context.signal;
+				await new Promise(resolve => setTimeout(resolve, 1000));
+			},
+			() => true,
+			{ timeout: 20 },
+		).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(PollTimeoutError);
+		expect((error as PollTimeoutError).lastValue).toBeUndefined();
+		expect(signal?.aborted).toBe(true);
+	});
+
+	it('should reject with the error thrown by the input without polling again', async () => {
+		const fixtureError = new Error('fixture');
+		let polls = 0;
+
+		await expect(
+			pPoll(
+				async () => {
+					polls++;
+					throw fixtureError;
+				},
+				() => true,
+				{ scheduler: new VirtualClock() },
+			),
+		).rejects.toBe(fixtureError);
+		expect(polls).toBe(1);
+	});
+
+	it('should stop with an AbortError when the signal is aborted', async () => {
+		const controller = new AbortController();
+
+		await expect(
+			pPoll(
+				async pollNumber => {
+					if (pollNumber === 2) {
+						controller.abort();
+					}
+
+					return pollNumber;
+				},
+				() => false,
+				{ signal: controller.signal, scheduler: new VirtualClock() },
+			),
+		).rejects.toBeInstanceOf(AbortError);
+	});
+
+	it('should validate the options', async () => {
+		await expect(
+			pPoll(
+				async () => 1,
+				() => true,
+				{ interval: -1 },
+			),
+		).rejects.toThrow(new RangeError('Expected `interval` to be a non-negative number.'));
+		await expect(
+			pPoll(
+				async () => 1,
+				() => true,
+				{ timeout: 0 },
+			),
+		).rejects.toThrow(new RangeError('Expected `timeout` to be a positive number.'));
+	});
+});
+
+describe('waitUntil', () => {
+	it('should resolve once the condition returns true', async () => {
+		const clock = new VirtualClock();
+		let polls = 0;
+
+		await waitUntil(() => ++polls === 3, { scheduler: clock });
+
+		expect(polls).toBe(3);
+		expect(clock.delays).toEqual([1000, 1000]);
+	});
+
+	it('should reject with a PollTimeoutError', async () => {
+		await expect(
+			waitUntil(() => false, { interval: 1000, timeout: 2000, scheduler: new VirtualClock() }),
+		).rejects.toBeInstanceOf(PollTimeoutError);
+	});
+});
@@ -0,0 +1,152 @@
+import { AbortError, pRetryAll } from '../src';
+import { describe, expect, it } from '@jest/globals';
+import { setTimeout as delay } from 'timers/promises';
+
+describe('pRetryAll', () => {
+	it('should return the settled result of every item with attempt counts', async () => {
+		const failures = new Map([
+			['a', 0],
+			['b', 2],
+			['c', 10],
+		]);
+
+		const results = await pRetryAll(
+			['a', 'b', 'c'],
+			async item => {
+				const remaining = failures.get(item)!;
+
+				if (remaining > 0) {
+					failures.set(item, remaining - 1);
+					throw new Error(`${item} failed`);
+				}
+
+				return item.toUpperCase();
+			},
+			{ retries: 3, minTimeout: 0 },
+		);
+
+		expect(results).toEqual([
+			{ status: 'fulfilled', value: 'A', attemptCount: 1 },
+			{ status: 'fulfilled', value: 'B', attemptCount: 3 },
+			{ status: 'rejected', reason: new Error('c failed'), attemptCount: 4 },
+		]);
+	});
+
+	it('should limit the number of concurrent attempts', async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		const results = await pRetryAll(
+			Array.from({ length: 10 }, (_, index) => index),
+			async (item, index) => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await delay(5);
+				running--;
+
+				return item * index;
+			},
+			{ concurrency: 3 },
+		);
+
+		expect(maxRunning).toBe(3);
+		expect(results.map(result => (result.status === 'fulfilled' ? result.value : undefined))).toEqual([
+			0, 1, 4, 9, 16, 25, 36, 49, 64, 81,
+		]);
+	});
+
+	it('should not hold a slot while an item waits for its next attempt', async () => {
+		const events: string[] = [];
+		let isFirstAttempt = true;
+
+		await pRetryAll(
+			['slow', 'fast'],
+			async item => {
+				events.push(item);
+
+				if (item === 'slow' && isFirstAttempt) {
+					isFirstAttempt = false;
+					throw new Error('retry later');
+				}
+			},
+			{ concurrency: 1, minTimeout: 50 },
+		);
+
+		expect(events).toEqual(['slow', 'fast', 'slow']);
+	});
+
+	it('should release the slot of an item whose onAttemptStart hook throws', async () => {
+		const hookError = new Error('hook');
+		const events: string[] = [];
+		let hookCalls = 0;
+
+		const results = await pRetryAll(
+			['slow', 'fast'],
+			async item => {
+				events.push(item);
+			},
+			{
+				concurrency: 1,
+				minTimeout: 50,
+				onAttemptStart: () => {
+					if (++hookCalls === 1) {
+						throw hookError;
+					}
+				},
+			},
+		);
+
+		expect(events).toEqual(['fast']);
+		expect(results[0]).toMatchObject({ status: 'rejected', reason: hookError });
+		expect(results[1]).toMatchObject({ status: 'fulfilled' });
+	});
+
+	it('should start the clock of an item once it gets a slot', async () => {
+		const results = await pRetryAll(
+			[1, 2, 3],
+			async item => {
+				await delay(120);
+				return item;
+			},
+			{ concurrency: 1, maxRetryTime: 200, strictMaxRetryTime: true },
+		);
+
+		expect(results).toEqual([1, 2, 3].map(value => ({ status: 'fulfilled', value, attemptCount: 1 })));
+	});
+
+	it('should cancel all items when the signal is aborted', async () => {
+		const controller = new AbortController();
+		let attempts = 0;
+
+		const results = await pRetryAll(
+			[1, 2, 3, 4],
+			async () => {
+				attempts++;
+				await delay(10);
+				throw new Error('fail');
+			},
+			{ concurrency: 2, minTimeout: 1000, signal: controller.signal, onFailedAttempt: () => controller.abort() },
+		);
+
+		expect(attempts).toBe(2);
+		expect(results.every(result => result.status === 'rejected' && result.reason instanceof AbortError)).toBe(true);
+		expect(results.map(result => result.attemptCount)).toEqual([1, 1, 0, 0]);
+	});
+
+	it('should pass the attempt context to the input', async () => {
+		const results = await pRetryAll(['x'], (_item, _index, context) => context.signal instanceof AbortSignal);
+
+		expect(results).toEqual([{ status: 'fulfilled', value: true, attemptCount: 1 }]);
+	});
+
+	it('should validate the concurrency', async () => {
+		await expect(pRetryAll([1], () => 1, { concurrency: 0 })).rejects.toThrow(
+			new RangeError('Expected `concurrency` to be a positive integer.'),
+		);
+		await expect(pRetryAll([1], () => 1, { concurrency: 1.5 })).rejects.toThrow(RangeError);
+	});
+
+	it('should reject hedged attempts', async () => {
+		await expect(pRetryAll([1], () => 1, { hedgeDelay: 100 })).rejects.toThrow(TypeError);
+	});
+});
@@ -0,0 +1,233 @@
+import { AbortError, FallbackError, RetryPolicy, RetryTimeoutError, pRetryWithFallback } from '../src';
+import { describe, expect, it } from '@jest/globals';
+import { setTimeout as delay } from 'timers/promises';
+
+describe('pRetryWithFallback', () => {
+	it('should fall back to the next source after the retries of a source are exhausted', async () => {
+		const primaryError = new Error('primary');
+		let primaryAttempts = 0;
+		let replicaAttempts = 0;
+
+		const result = await pRetryWithFallback([
+			{
+				name: 'primary',
+				input: async () => {
+					primaryAttempts++;
+					throw primaryError;
+				},
+				options: { retries: 2, minTimeout: 0 },
+			},
+			{
+				name: 'replica',
+				input: async attemptNumber => {
+					replicaAttempts++;
+
+					if (attemptNumber === 1) {
+						throw new Error('replica');
+					}
+
+					return 'value';
+				},
+				options: new RetryPolicy({ retries: 1, minTimeout: 0 }),
+			},
+			{ name: 'cache', input: () => 'cached' },
+		]);
+
+		expect(result).toEqual({ value: 'value', sourceIndex: 1, sourceName: 'replica', errors: [primaryError] });
+		expect(primaryAttempts).toBe(3);
+		expect(replicaAttempts).toBe(2);
+	});
+
+	it('should accept input functions as sources', async () => {
+		const result = await pRetryWithFallback([() => 'primary']);
+
+		expect(result).toEqual({ value: 'primary', sourceIndex: 0, sourceName: undefined, errors: [] });
+	});
+
+	it('should reject with a FallbackError holding the error of every source', async () => {
+		const errors = [new Error('primary'), new Error('replica')];
+
+		expect.assertions(6);
+
+		try {
+			await pRetryWithFallback(
+				errors.map(error => ({
+					input: async () => {
+						throw error;
+					},
+					options: { retries: 1, minTimeout: 0 },
+				})),
+			);
+		} catch (e: any) {
+			expect(e).toBeInstanceOf(FallbackError);
+			expect(e.errors).toEqual(errors);
+			expect(e.cause).toBe(errors[1]);
+			expect(e.sourceCount).toBe(2);
+			expect(e.isTimedOut).toBe(false);
+			expect(e.message).toBe('Failed after trying 2 of 2 source(s): replica');
+		}
+	});
+
+	it('should stop the chain when the shared signal is aborted', async () => {
+		const controller = new AbortController();
+		let isFallbackCalled = false;
+
+		await expect(
+			pRetryWithFallback(
+				[
+					async () => {
+						controller.abort();
+						throw new Error('primary');
+					},
+					() => {
+						isFallbackCalled = true;
+						return 'fallback';
+					},
+				],
+				{ signal: controller.signal },
+			),
+		).rejects.toBeInstanceOf(AbortError);
+
+		expect(isFallbackCalled).toBe(false);
+	});
+
+	it('should not start sources once the timeout passes', async () => {
+		let isCacheCalled = false;
+
+		expect.assertions(4);
+
+		try {
+			await pRetryWithFallback(
+				[
+					{
+						input: async () => {
+							await delay(30);
+							throw new Error('primary');
+						},
+						options: { retries: 100, minTimeout: 10 },
+					},
+					() => {
+						isCacheCalled = true;
+						return 'cached';
+					},
+				],
+				{ timeout: 100 },
+			);
+		} catch (e: any) {
+			expect(e).toBeInstanceOf(FallbackError);
+			expect(e.isTimedOut).toBe(true);
+			expect(e.errors).toHaveLength(1);
+		}
+
+		expect(isCacheCalled).toBe(false);
+	});
+
+	it('should interrupt a running attempt when the timeout passes', async () => {
+		const start = Date.now();
+		let attemptSignal: AbortSignal | undefined;
+
+		expect.assertions(5);
+
+		try {
+			await pRetryWithFallback(
+				[
+					async (_attemptNumber, { signal }) => {
+						attemptSignal = signal;
+						await delay(1500);
+						return 'primary';
+					},
+					() => 'cached',
+				],
+				{ timeout: 200 },
+			);
+		} catch (e: any) {
+			expect(e).toBeInstanceOf(FallbackError);
+			expect(e.isTimedOut).toBe(true);
+			expect(e.errors[0]).toBeInstanceOf(RetryTimeoutError);
+		}
+
+		expect(attemptSignal?.aborted).toBe(true);
+		expect(Date.now() - start).toBeLessThan(1000);
+	});
+
+	it('should interrupt a running attempt when the maxRetryTime of the source is shorter than the timeout', async () => {
+		const start = Date.now();
+		let attemptSignal: AbortSignal | undefined;
+
+		expect.assertions(6);
+
+		try {
+			await pRetryWithFallback(
+				[
+					{
+						input: async (_attemptNumber, { signal }) => {
+							attemptSignal = signal;
+							await delay(1500);
+							return 'primary';
+						},
+						options: { maxRetryTime: 100, retries: 0 },
+					},
+				],
+				{ timeout: 300 },
+			);
+		} catch (e: any) {
+			expect(e).toBeInstanceOf(FallbackError);
+			expect(e.isTimedOut).toBe(true);
+			expect(e.errors[0]).toBeInstanceOf(RetryTimeoutError);
+			expect(e.errors[0].attemptNumber).toBe(1);
+		}
+
+		expect(attemptSignal?.aborted).toBe(true);
+		expect(Date.now() - start).toBeLessThan(1000);
+	});
+
+	it('should reject right away when the shared signal is aborted during an attempt', async () => {
+		const controller = new AbortController();
+		let attemptSignal: AbortSignal | undefined;
+
+		setTimeout(() => controller.abort(), 50);
+
+		await expect(
+			pRetryWithFallback(
+				[
+					async (_attemptNumber, { signal }) => {
+						attemptSignal = signal;
+						return new Promise<never>(() => {});
+					},
+				],
+				{ signal: controller.signal },
+			),
+		).rejects.toBeInstanceOf(AbortError);
+
+		expect(attemptSignal?.aborted).toBe(true);
+	});
+
+	it('should combine the signal of a source with the shared signal', async () => {
+		const chainController = new AbortController();
+		const sourceController = new AbortController();
+
+		const result = await pRetryWithFallback(
+			[
+				{
+					input: async () => {
+						sourceController.abort();
+						throw new Error('primary');
+					},
+					options: { signal: sourceController.signal, minTimeout: 0 },
+				},
+				() => 'replica',
+			],
+			{ signal: chainController.signal },
+		);
+
+		expect(result.value).toBe('replica');
+		expect(result.errors[0]).toBeInstanceOf(AbortError);
+	});
+
+	it('should validate the arguments', async () => {
+		await expect(pRetryWithFallback([])).rejects.toThrow(new TypeError('Expected at least one source.'));
+		await expect(pRetryWithFallback([() => 1], { timeout: 0 })).rejects.toThrow(
+			new RangeError('Expected `timeout` to be a positive number.'),
+		);
+	});
+});
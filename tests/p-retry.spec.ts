@@ -1,4 +1,19 @@
-import { AbortError, makeRetriable, pRetry } from '../src';
+import {
+	AbortError,
+	type AttemptContext,
+	AttemptTimeoutError,
+	type GiveUpEvent,
+	type RetryContext,
+	RetryError,
+	RetryTimeoutError,
+	UnacceptableResultError,
+	getGiveUpReason,
+	isRetryError,
+	makeRetriable,
+	pRetry,
+	validateOptions,
+	VirtualClock,
+} from '../src';
 import { describe, expect, it, jest } from '@jest/globals';
 import { setTimeout as delay } from 'timers/promises';
 
@@ -144,6 +159,96 @@ describe('pRetry', () => {
 			expect(index).toBe(3);
 		});
 
+		it('should retry TypeErrors matched by networkErrorMatchers', async () => {
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						throw new TypeError(attempts === 1 ? 'socket hang up' : 'Connection reset by peer');
+					},
+					{ retries: 2, minTimeout: 0, networkErrorMatchers: ['socket hang up', /connection reset/i] },
+				),
+			).rejects.toThrow('Connection reset by peer');
+
+			expect(attempts).toBe(3);
+		});
+
+		it('should use isFatalError instead of the built-in rule', async () => {
+			const fatalError = new RangeError('fatal');
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						throw attempts === 1 ? new TypeError('transient') : fatalError;
+					},
+					{ minTimeout: 0, isFatalError: error => error instanceof RangeError },
+				),
+			).rejects.toBe(fatalError);
+
+			expect(attempts).toBe(2);
+		});
+
+		it('should retry every error when isFatalError is false', async () => {
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						throw new TypeError('type-error-fixture');
+					},
+					{ retries: 2, minTimeout: 0, isFatalError: false },
+				),
+			).rejects.toThrow('type-error-fixture');
+
+			expect(attempts).toBe(3);
+		});
+
+		it('should pass fatal errors to shouldRetry when shouldRetryFatalErrors is enabled', async () => {
+			const typeErrorFixture = new TypeError('type-error-fixture');
+			const flags: boolean[] = [];
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						throw attempts < 3 ? typeErrorFixture : fixtureError;
+					},
+					{
+						minTimeout: 0,
+						shouldRetryFatalErrors: true,
+						shouldRetry: ({ isFatal }) => {
+							flags.push(isFatal);
+							return isFatal;
+						},
+					},
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(flags).toEqual([true, true, false]);
+		});
+
+		it('should not retry fatal errors without shouldRetry even when shouldRetryFatalErrors is enabled', async () => {
+			const typeErrorFixture = new TypeError('type-error-fixture');
+			const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+
+			await expect(
+				pRetry(
+					async () => {
+						throw typeErrorFixture;
+					},
+					{ shouldRetryFatalErrors: true, onGiveUp },
+				),
+			).rejects.toBe(typeErrorFixture);
+
+			expect(onGiveUp.mock.calls[0][0].reason).toBe('non-retryable');
+		});
+
 		it('should preserve errors when maxRetryTime exceeded', async () => {
 			const originalError = new Error('original error');
 			const maxRetryTime = 100;
@@ -175,6 +280,151 @@ describe('pRetry', () => {
 		});
 	});
 
+	describe('aggregateErrors option', () => {
+		it('should reject with a RetryError holding every attempt error', async () => {
+			const errors = [new Error('500'), new Error('timeout')];
+
+			expect.assertions(9);
+
+			try {
+				await pRetry(
+					async attemptNumber => {
+						throw errors[attemptNumber - 1];
+					},
+					{ retries: 1, minTimeout: 0, aggregateErrors: true },
+				);
+			} catch (e) {
+				expect(isRetryError(e)).toBe(true);
+
+				const error = e as RetryError;
+				expect(error).toBeInstanceOf(AggregateError);
+				expect(error.errors).toEqual(errors);
+				expect(error.cause).toBe(errors[1]);
+				expect(error.reason).toBe('retries-exhausted');
+				expect(error.attempts.map(({ attemptNumber }) => attemptNumber)).toEqual([1, 2]);
+				expect(error.attempts[1].startTime).toBeGreaterThanOrEqual(error.attempts[0].startTime);
+				expect(error.elapsedTime).toBeGreaterThanOrEqual(0);
+				expect(getGiveUpReason(error)).toBe('retries-exhausted');
+			}
+		});
+
+		it('should still reject with AbortError when aborted', async () => {
+			await expect(
+				pRetry(
+					async () => {
+						throw new AbortError('stop');
+					},
+					{ aggregateErrors: true },
+				),
+			).rejects.toBeInstanceOf(AbortError);
+		});
+
+		it('should not be a RetryError by default', async () => {
+			await expect(
+				pRetry(
+					async () => {
+						throw fixtureError;
+					},
+					{ retries: 0 },
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(isRetryError(fixtureError)).toBe(false);
+		});
+	});
+
+	describe('retryOnResult option', () => {
+		it('should retry until the result is acceptable', async () => {
+			const statuses = ['pending', 'pending', 'done'];
+			const contexts: RetryContext[] = [];
+
+			const result = await pRetry(async attemptNumber => ({ status: statuses[attemptNumber - 1] }), {
+				minTimeout: 0,
+				retryOnResult: result => (result as { status: string }).status === 'pending',
+				onFailedAttempt: context => {
+					contexts.push(context);
+				},
+			});
+
+			expect(result).toEqual({ status: 'done' });
+			expect(contexts).toHaveLength(2);
+			expect(contexts[0].error).toBeInstanceOf(UnacceptableResultError);
+			expect(contexts[0].error).toMatchObject({ result: { status: 'pending' }, attemptNumber: 1 });
+		});
+
+		it('should pass the unacceptable result error to shouldRetry', async () => {
+			const shouldRetry = jest.fn((context: RetryContext) => context.attemptNumber < 2);
+
+			const error = await pRetry(async () => 'pending', {
+				retries: 5,
+				minTimeout: 0,
+				retryOnResult: () => true,
+				shouldRetry,
+			}).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(UnacceptableResultError);
+			expect((error as UnacceptableResultError).result).toBe('pending');
+			expect(getGiveUpReason(error)).toBe('should-retry');
+			expect(shouldRetry).toHaveBeenCalledTimes(2);
+		});
+
+		it('should reject with the error when retries are exhausted', async () => {
+			const error = await pRetry(async attemptNumber => attemptNumber, {
+				retries: 2,
+				minTimeout: 0,
+				retryOnResult: () => true,
+			}).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(UnacceptableResultError);
+			expect(error).toMatchObject({ result: 3, attemptNumber: 3 });
+			expect(getGiveUpReason(error)).toBe('retries-exhausted');
+		});
+
+		it('should resolve with the last result when returnLastResult is enabled', async () => {
+			const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+
+			const result = await pRetry(async attemptNumber => attemptNumber, {
+				retries: 2,
+				minTimeout: 0,
+				retryOnResult: () => true,
+				returnLastResult: true,
+				onGiveUp,
+			});
+
+			expect(result).toBe(3);
+			expect(onGiveUp).toHaveBeenCalledWith(expect.objectContaining({ reason: 'retries-exhausted' }));
+		});
+
+		it('should not resolve with the last result when a hook throws', async () => {
+			const hookError = new Error('hook');
+
+			await expect(
+				pRetry(async () => 'pending', {
+					minTimeout: 0,
+					retryOnResult: value => value === 'pending',
+					returnLastResult: true,
+					onFailedAttempt: () => {
+						throw hookError;
+					},
+				}),
+			).rejects.toBe(hookError);
+		});
+
+		it('should fail the attempt with the error thrown by retryOnResult', async () => {
+			const predicateError = new Error('predicate');
+
+			await expect(
+				pRetry(async () => 'value', {
+					retries: 0,
+					retryOnResult: () => {
+						throw predicateError;
+					},
+					returnLastResult: true,
+				}),
+			).rejects.toBe(predicateError);
+		});
+	});
+
 	describe('AbortError', () => {
 		it('should create AbortError with message', () => {
 			const error = new AbortError('Custom message');
@@ -369,6 +619,70 @@ describe('pRetry', () => {
 			expect(attemptNumber).toBe(2);
 		});
 
+		it('should provide timing, delay and previous errors', async () => {
+			const start = Date.now();
+			const errors = [new Error('first'), new Error('second'), new Error('third')];
+			const contexts: RetryContext[] = [];
+
+			await expect(
+				pRetry(
+					async attemptNumber => {
+						await delay(20);
+						throw errors[attemptNumber - 1];
+					},
+					{
+						retries: 2,
+						minTimeout: 10,
+						factor: 2,
+						maxRetryTime: 10_000,
+						onFailedAttempt: context => {
+							contexts.push(context);
+						},
+					},
+				),
+			).rejects.toBe(errors[2]);
+
+			expect(contexts.map(({ delay }) => delay)).toEqual([10, 20, 0]);
+			expect(contexts.map(({ previousErrors }) => previousErrors)).toEqual([
+				[],
+				errors.slice(0, 1),
+				errors.slice(0, 2),
+			]);
+
+			for (const context of contexts) {
+				expect(Object.isFrozen(context)).toBe(true);
+				expect(context.startTime).toBeGreaterThanOrEqual(start);
+				expect(context.attemptDuration).toBeGreaterThanOrEqual(15);
+				expect(context.elapsedTime).toBeGreaterThanOrEqual(context.attemptDuration);
+				expect(context.remainingTime).toBe(10_000 - context.elapsedTime);
+			}
+		});
+
+		it('should only keep the most recent previous errors', async () => {
+			const errors = Array.from({ length: 150 }, (_value, index) => new Error(`${index + 1}`));
+			let lastContext: RetryContext | undefined;
+
+			await expect(
+				pRetry(
+					async attemptNumber => {
+						throw errors[attemptNumber - 1];
+					},
+					{
+						retries: 149,
+						minTimeout: 0,
+						maxTimeout: 0,
+						onFailedAttempt: context => {
+							lastContext = context;
+						},
+					},
+				),
+			).rejects.toBe(errors[149]);
+
+			expect(lastContext?.previousErrors.map(({ message }) => message)).toEqual(
+				errors.slice(49, 149).map(({ message }) => message),
+			);
+		});
+
 		it('should allow returning a promise to add a delay', async () => {
 			const waitFor = 1000;
 			const start = Date.now();
@@ -427,6 +741,178 @@ describe('pRetry', () => {
 		});
 	});
 
+	describe('Lifecycle hooks', () => {
+		it('should report attempt starts, scheduled retries and success', async () => {
+			const events: string[] = [];
+
+			const result = await pRetry(
+				async attemptNumber => {
+					if (attemptNumber < 3) {
+						throw fixtureError;
+					}
+
+					return fixture;
+				},
+				{
+					minTimeout: 5,
+					factor: 1,
+					onAttemptStart: ({ attemptNumber, signal }) => {
+						expect(signal.aborted).toBe(false);
+						events.push(`start:${attemptNumber}`);
+					},
+					onFailedAttempt: ({ attemptNumber }) => {
+						events.push(`failed:${attemptNumber}`);
+					},
+					onRetryScheduled: ({ attemptNumber }, delay) => {
+						events.push(`scheduled:${attemptNumber}:${delay}`);
+					},
+					onSuccess: ({ attemptNumber, duration }) => {
+						expect(duration).toBeGreaterThanOrEqual(0);
+						events.push(`success:${attemptNumber}`);
+					},
+					onGiveUp: () => {
+						events.push('give-up');
+					},
+				},
+			);
+
+			expect(result).toBe(fixture);
+			expect(events).toEqual([
+				'start:1',
+				'failed:1',
+				'scheduled:1:5',
+				'start:2',
+				'failed:2',
+				'scheduled:2:5',
+				'start:3',
+				'success:3',
+			]);
+		});
+
+		it.each<[string, GiveUpEvent['reason'], Parameters<typeof pRetry>[1], () => never]>([
+			[
+				'retries are exhausted',
+				'retries-exhausted',
+				{ retries: 1 },
+				() => {
+					throw fixtureError;
+				},
+			],
+			[
+				'shouldRetry returns false',
+				'should-retry',
+				{ shouldRetry: () => false },
+				() => {
+					throw fixtureError;
+				},
+			],
+			[
+				'the error is not retryable',
+				'non-retryable',
+				{},
+				() => {
+					throw new TypeError('fixture');
+				},
+			],
+			[
+				'maxRetryTime is exceeded',
+				'max-retry-time',
+				{ maxRetryTime: 0 },
+				() => {
+					throw fixtureError;
+				},
+			],
+		])('should give up with a reason when %s', async (_title, reason, options, input) => {
+			const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+
+			await expect(pRetry(input, { ...options, minTimeout: 0, onGiveUp })).rejects.toThrow();
+
+			expect(onGiveUp).toHaveBeenCalledTimes(1);
+			expect(onGiveUp.mock.calls[0][0].reason).toBe(reason);
+			expect(getGiveUpReason(onGiveUp.mock.calls[0][0].error)).toBe(reason);
+		});
+
+		it.each<[string, Parameters<typeof pRetry>[1]]>([
+			[
+				'onAttemptStart',
+				{
+					onAttemptStart: () => {
+						throw fixtureError;
+					},
+				},
+			],
+			[
+				'onFailedAttempt',
+				{
+					onFailedAttempt: () => {
+						throw fixtureError;
+					},
+				},
+			],
+			[
+				'shouldRetry',
+				{
+					shouldRetry: () => {
+						throw fixtureError;
+					},
+				},
+			],
+			[
+				'onRetryScheduled',
+				{
+					onRetryScheduled: () => {
+						throw fixtureError;
+					},
+				},
+			],
+		])('should reject with the error thrown by %s and call onGiveUp', async (_title, options) => {
+			const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+
+			await expect(
+				pRetry(
+					async () => {
+						throw new Error('attempt');
+					},
+					{ ...options, minTimeout: 0, aggregateErrors: true, onGiveUp },
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(onGiveUp).toHaveBeenCalledTimes(1);
+			expect(onGiveUp.mock.calls[0][0]).toMatchObject({
+				reason: 'hook-error',
+				error: fixtureError,
+				attemptNumber: 1,
+			});
+		});
+
+		it('should call onAbort and onGiveUp when aborted by the signal', async () => {
+			const controller = new AbortController();
+			const calls: string[] = [];
+
+			await expect(
+				pRetry(
+					async () => {
+						controller.abort(fixtureError);
+						throw new Error('keep retrying');
+					},
+					{
+						signal: controller.signal,
+						minTimeout: 1000,
+						onAbort: ({ error, attemptNumber }) => {
+							expect(error).toBeInstanceOf(AbortError);
+							calls.push(`abort:${attemptNumber}`);
+						},
+						onGiveUp: ({ reason }) => {
+							calls.push(`give-up:${reason}`);
+						},
+					},
+				),
+			).rejects.toBeInstanceOf(AbortError);
+
+			expect(calls).toEqual(['abort:1', 'give-up:aborted']);
+		});
+	});
+
 	describe('Retry delay options', () => {
 		it('should apply factor to exponential backoff', async () => {
 			const delays: number[] = [];
@@ -571,63 +1057,543 @@ describe('pRetry', () => {
 			}
 		});
 
-		it('should handle invalid factor values', async () => {
-			const delays: number[] = [];
-			const minTimeout = 100;
+		it('should spread delays down to zero with full jitter', async () => {
+			const start = Date.now();
+			let attempts = 0;
 
 			await expect(
 				pRetry(
 					async () => {
-						// Should default to minTimeout
-						delays.push(minTimeout);
-						throw new Error('test');
-					},
-					{
-						retries: 2,
-						factor: 0, // Invalid factor
-						minTimeout,
-						randomize: false,
+						attempts++;
+						throw fixtureError;
 					},
+					{ retries: 3, minTimeout: 10_000, jitter: 'full', random: () => 0 },
 				),
-			).rejects.toThrow();
+			).rejects.toBe(fixtureError);
 
-			expect(delays[0]).toBe(minTimeout);
-			expect(delays[1]).toBe(minTimeout);
+			expect(attempts).toBe(4);
+			expect(Date.now() - start).toBeLessThan(1000);
 		});
-	});
 
-	describe('Time limits', () => {
-		it('should limit total retry duration with maxRetryTime', async () => {
+		it('should keep at least half of the delay with equal jitter', async () => {
 			const start = Date.now();
-			const maxRetryTime = 1000;
 
 			await expect(
 				pRetry(
 					async () => {
-						await delay(400);
-						throw new Error('test');
-					},
-					{
-						retries: 10,
-						minTimeout: 100,
-						maxRetryTime,
+						throw fixtureError;
 					},
+					{ retries: 2, minTimeout: 100, factor: 1, jitter: 'equal', random: () => 0 },
 				),
-			).rejects.toThrow();
+			).rejects.toBe(fixtureError);
 
-			expect(Date.now() - start).toBeLessThan(maxRetryTime + 1000);
+			const elapsed = Date.now() - start;
+			expect(elapsed).toBeGreaterThanOrEqual(95);
+			expect(elapsed).toBeLessThan(200);
 		});
 
-		it('should handle zero maxRetryTime', async () => {
-			let attempts = 0;
+		it('should use the injected random source for randomize', async () => {
+			const random = jest.fn(() => 0);
 
 			await expect(
 				pRetry(
 					async () => {
-						attempts++;
-						throw new Error('test');
+						throw fixtureError;
 					},
-					{ maxRetryTime: 0 },
+					{ retries: 2, minTimeout: 5, randomize: true, random },
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(random).toHaveBeenCalledTimes(2);
+		});
+
+		it('should reject invalid factor values', async () => {
+			const input = jest.fn(async () => {
+				throw new Error('test');
+			});
+
+			await expect(pRetry(input, { retries: 2, factor: 0, minTimeout: 100 })).rejects.toThrow(
+				new RangeError('Expected `factor` to be a positive number.'),
+			);
+			expect(input).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('backoff option', () => {
+		it('should call a backoff function with the attempt number, previous delay and context', async () => {
+			const calls: Array<[number, number, number]> = [];
+
+			await expect(
+				pRetry(
+					async () => {
+						throw fixtureError;
+					},
+					{
+						retries: 3,
+						backoff: (attemptNumber, previousDelay, context) => {
+							expect(context.error).toBe(fixtureError);
+							calls.push([attemptNumber, previousDelay, context.retriesLeft]);
+							return attemptNumber * 10;
+						},
+					},
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(calls).toEqual([
+				[1, 0, 3],
+				[2, 10, 2],
+				[3, 20, 1],
+			]);
+		});
+
+		it('should accept a strategy object and cap it with maxTimeout', async () => {
+			const delays: number[] = [];
+
+			await expect(
+				pRetry(
+					async () => {
+						throw fixtureError;
+					},
+					{
+						retries: 3,
+						maxTimeout: 30,
+						backoff: {
+							computeDelay: (attemptNumber, previousDelay) => {
+								delays.push(previousDelay);
+								return attemptNumber * 20;
+							},
+						},
+					},
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(delays).toEqual([0, 20, 30]);
+		});
+	});
+
+	describe('retryAfter option', () => {
+		it('should use the retryAfter property of the error instead of the computed delay', async () => {
+			const start = Date.now();
+			const retryAfterError = Object.assign(new Error('rate limited'), { retryAfter: 0 });
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						throw retryAfterError;
+					},
+					{
+						retries: 2,
+						minTimeout: 10_000,
+						onFailedAttempt: ({ retryAfter }) => {
+							expect(retryAfter).toBe(0);
+						},
+					},
+				),
+			).rejects.toBe(retryAfterError);
+
+			expect(attempts).toBe(3);
+			expect(Date.now() - start).toBeLessThan(1000);
+		});
+
+		it('should resolve the hint with the retryAfter hook and cap it with maxTimeout', async () => {
+			const start = Date.now();
+			const contexts: Array<number | undefined> = [];
+
+			await expect(
+				pRetry(
+					async () => {
+						throw fixtureError;
+					},
+					{
+						retries: 1,
+						maxTimeout: 50,
+						retryAfter: error => (error === fixtureError ? new Date(Date.now() + 60_000) : undefined),
+						shouldRetry: ({ retryAfter }) => {
+							contexts.push(retryAfter);
+							return true;
+						},
+					},
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(contexts[0]).toBeGreaterThan(50_000);
+			expect(Date.now() - start).toBeLessThan(1000);
+		});
+	});
+
+	describe('attemptTimeout option', () => {
+		it('should time out hung attempts and retry them', async () => {
+			const signals: AbortSignal[] = [];
+			const errors: Error[] = [];
+
+			const result = await pRetry(
+				async (attemptNumber, { signal }) => {
+					signals.push(signal);
+
+					if (attemptNumber < 3) {
+						return new Promise<never>(() => {});
+					}
+
+					return fixture;
+				},
+				{
+					attemptTimeout: 30,
+					minTimeout: 0,
+					onFailedAttempt: ({ error }) => {
+						errors.push(error);
+					},
+				},
+			);
+
+			expect(result).toBe(fixture);
+			expect(errors).toHaveLength(2);
+			expect(errors[0]).toBeInstanceOf(AttemptTimeoutError);
+			expect((errors[0] as AttemptTimeoutError).attemptNumber).toBe(1);
+			expect((errors[0] as AttemptTimeoutError).timeout).toBe(30);
+			expect(signals[0].aborted).toBe(true);
+			expect(signals[0].reason).toBe(errors[0]);
+			expect(signals[2].aborted).toBe(false);
+		});
+
+		it('should abort the attempt signal when the outer signal is aborted', async () => {
+			const controller = new AbortController();
+			let attemptSignal: AbortSignal | undefined;
+
+			await expect(
+				pRetry(
+					async (_attemptNumber, { signal }) => {
+						attemptSignal = signal;
+						controller.abort(fixtureError);
+						throw new Error('aborted');
+					},
+					{ signal: controller.signal, minTimeout: 0 },
+				),
+			).rejects.toBeInstanceOf(AbortError);
+
+			expect(attemptSignal?.aborted).toBe(true);
+			expect(attemptSignal?.reason).toBe(fixtureError);
+		});
+
+		it('should pass the retries left in the attempt context', async () => {
+			const retriesLeft: number[] = [];
+
+			await expect(
+				pRetry(
+					async (_attemptNumber, context) => {
+						retriesLeft.push(context.retriesLeft);
+						throw fixtureError;
+					},
+					{ retries: 2, minTimeout: 0 },
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(retriesLeft).toEqual([2, 1, 0]);
+		});
+	});
+
+	describe('hedgeDelay option', () => {
+		it('should start a parallel attempt and abort the slower one', async () => {
+			const signals: AbortSignal[] = [];
+
+			const result = await pRetry(
+				async (attemptNumber, { signal }) => {
+					signals.push(signal);
+
+					if (attemptNumber === 1) {
+						return new Promise<never>(() => {});
+					}
+
+					await delay(10);
+					return fixture;
+				},
+				{ hedgeDelay: 20 },
+			);
+
+			expect(result).toBe(fixture);
+			expect(signals).toHaveLength(2);
+			expect(signals[0].aborted).toBe(true);
+			expect(signals[0].reason).toBeInstanceOf(AbortError);
+			expect(signals[1].aborted).toBe(false);
+		});
+
+		it('should not hedge attempts that settle in time', async () => {
+			let attempts = 0;
+
+			const result = await pRetry(
+				async () => {
+					attempts++;
+					await delay(10);
+					return fixture;
+				},
+				{ hedgeDelay: 100 },
+			);
+
+			expect(result).toBe(fixture);
+			expect(attempts).toBe(1);
+		});
+
+		it('should report which of the parallel attempts failed', async () => {
+			const contexts: RetryContext[] = [];
+
+			const result = await pRetry(
+				async attemptNumber => {
+					if (attemptNumber === 1) {
+						await delay(40);
+						throw fixtureError;
+					}
+
+					await delay(60);
+					return fixture;
+				},
+				{
+					retries: 3,
+					hedgeDelay: 20,
+					onFailedAttempt: context => {
+						contexts.push(context);
+					},
+				},
+			);
+
+			expect(result).toBe(fixture);
+			expect(contexts).toHaveLength(1);
+			expect(contexts[0].attemptNumber).toBe(1);
+			expect(contexts[0].error).toBe(fixtureError);
+			expect(contexts[0].retriesLeft).toBe(2);
+		});
+
+		it('should count hedged attempts against retries', async () => {
+			const attemptNumbers: number[] = [];
+			const failedAttemptNumbers: number[] = [];
+
+			await expect(
+				pRetry(
+					async attemptNumber => {
+						attemptNumbers.push(attemptNumber);
+						await delay(50);
+						throw fixtureError;
+					},
+					{
+						retries: 2,
+						minTimeout: 0,
+						hedgeDelay: 10,
+						onFailedAttempt: ({ attemptNumber }) => {
+							failedAttemptNumbers.push(attemptNumber);
+						},
+					},
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(attemptNumbers).toEqual([1, 2, 3]);
+			expect(failedAttemptNumbers).toEqual([1, 2, 3]);
+		});
+
+		it('should run up to maxHedges attempts in parallel with the first one', async () => {
+			let running = 0;
+			let maxRunning = 0;
+
+			const result = await pRetry(
+				async attemptNumber => {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await delay(attemptNumber === 3 ? 10 : 200);
+					running--;
+					return attemptNumber;
+				},
+				{ hedgeDelay: 10, maxHedges: 2 },
+			);
+
+			expect(result).toBe(3);
+			expect(maxRunning).toBe(3);
+		});
+
+		it('should not start hedges once maxRetryTime has passed', async () => {
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						await delay(60);
+						throw fixtureError;
+					},
+					{ hedgeDelay: 40, maxHedges: 3, maxRetryTime: 30 },
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(attempts).toBe(1);
+		});
+
+		it('should give up and abort the running attempts when the onAttemptStart hook of a hedge throws', async () => {
+			const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+			let firstSignal: AbortSignal | undefined;
+
+			await expect(
+				pRetry(
+					async (_attemptNumber, { signal }) => {
+						firstSignal = signal;
+						await delay(50);
+						return fixture;
+					},
+					{
+						hedgeDelay: 10,
+						onAttemptStart: ({ attemptNumber }) => {
+							if (attemptNumber === 2) {
+								throw fixtureError;
+							}
+						},
+						onGiveUp,
+					},
+				),
+			).rejects.toBe(fixtureError);
+
+			expect(firstSignal?.aborted).toBe(true);
+			expect(onGiveUp).toHaveBeenCalledTimes(1);
+			expect(onGiveUp.mock.calls[0][0]).toMatchObject({ reason: 'hook-error', attemptNumber: 2 });
+		});
+
+		it('should measure the hedge delay with the clock of the scheduler', async () => {
+			const clock = new VirtualClock();
+			let attempts = 0;
+
+			const result = await pRetry(
+				async attemptNumber => {
+					attempts++;
+
+					if (attemptNumber === 1) {
+						clock.advance(100);
+						await delay(50);
+					}
+
+					return attemptNumber;
+				},
+				{ hedgeDelay: 100, scheduler: clock },
+			);
+
+			expect(result).toBe(2);
+			expect(attempts).toBe(2);
+		});
+
+		it('should abort the parallel attempts when an attempt fails with a fatal error', async () => {
+			const signals: AbortSignal[] = [];
+
+			await expect(
+				pRetry(
+					async (attemptNumber, { signal }) => {
+						signals.push(signal);
+
+						if (attemptNumber === 1) {
+							return new Promise<never>(() => {});
+						}
+
+						throw new AbortError(fixtureError.message);
+					},
+					{ hedgeDelay: 10 },
+				),
+			).rejects.toBeInstanceOf(AbortError);
+
+			expect(signals).toHaveLength(2);
+			expect(signals[0].aborted).toBe(true);
+		});
+	});
+
+	describe('Time limits', () => {
+		it('should limit total retry duration with maxRetryTime', async () => {
+			const start = Date.now();
+			const maxRetryTime = 1000;
+
+			await expect(
+				pRetry(
+					async () => {
+						await delay(400);
+						throw new Error('test');
+					},
+					{
+						retries: 10,
+						minTimeout: 100,
+						maxRetryTime,
+					},
+				),
+			).rejects.toThrow();
+
+			expect(Date.now() - start).toBeLessThan(maxRetryTime + 1000);
+		});
+
+		it('should interrupt an in-flight attempt in strict mode', async () => {
+			const start = Date.now();
+			let attemptSignal: AbortSignal | undefined;
+
+			expect.assertions(7);
+
+			try {
+				await pRetry(
+					async (attemptNumber, { signal }) => {
+						if (attemptNumber === 1) {
+							throw fixtureError;
+						}
+
+						attemptSignal = signal;
+						return new Promise<never>(() => {});
+					},
+					{ maxRetryTime: 100, strictMaxRetryTime: true, minTimeout: 10 },
+				);
+			} catch (e: any) {
+				expect(e).toBeInstanceOf(RetryTimeoutError);
+				expect(e.cause).toBe(fixtureError);
+				expect(e.attemptNumber).toBe(2);
+				expect(e.maxRetryTime).toBe(100);
+				expect(e.elapsedTime).toBeGreaterThanOrEqual(95);
+			}
+
+			expect(attemptSignal?.aborted).toBe(true);
+			expect(Date.now() - start).toBeLessThan(500);
+		});
+
+		it('should reject with RetryTimeoutError when the budget runs out between attempts in strict mode', async () => {
+			await expect(
+				pRetry(
+					async () => {
+						await delay(60);
+						throw fixtureError;
+					},
+					{ maxRetryTime: 50, strictMaxRetryTime: true, minTimeout: 0 },
+				),
+			).rejects.toBeInstanceOf(RetryTimeoutError);
+		});
+
+		it('should not count the attempt skipped by the deadline in strict mode', async () => {
+			let calls = 0;
+			const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+
+			expect.assertions(3);
+
+			try {
+				await pRetry(
+					async () => {
+						calls++;
+						throw fixtureError;
+					},
+					{ retries: 5, minTimeout: 80, factor: 1, maxRetryTime: 100, strictMaxRetryTime: true, onGiveUp },
+				);
+			} catch (e: any) {
+				expect(e.attemptNumber).toBe(calls);
+			}
+
+			expect(calls).toBe(2);
+			expect(onGiveUp.mock.calls[0][0].attemptNumber).toBe(2);
+		});
+
+		it('should handle zero maxRetryTime', async () => {
+			let attempts = 0;
+
+			await expect(
+				pRetry(
+					async () => {
+						attempts++;
+						throw new Error('test');
+					},
+					{ maxRetryTime: 0 },
 				),
 			).rejects.toThrow();
 
@@ -646,6 +1612,42 @@ describe('pRetry', () => {
 				),
 			).rejects.toThrow('Expected `retries` to be a non-negative number.');
 		});
+
+		it('should throw a RangeError naming the out-of-range option', async () => {
+			await expect(pRetry(async () => {}, { minTimeout: -1 })).rejects.toThrow(
+				new RangeError('Expected `minTimeout` to be a non-negative number.'),
+			);
+			await expect(pRetry(async () => {}, { maxRetryTime: Number.NaN })).rejects.toThrow(
+				new RangeError('Expected `maxRetryTime` to be a non-negative number.'),
+			);
+			await expect(pRetry(async () => {}, { attemptTimeout: 0 })).rejects.toThrow(
+				new RangeError('Expected `attemptTimeout` to be a positive number.'),
+			);
+			await expect(pRetry(async () => {}, { retries: 1.5 })).rejects.toThrow(
+				new RangeError('Expected `retries` to be a non-negative integer or `Infinity`.'),
+			);
+			await expect(pRetry(async () => {}, { maxHedges: 1.5 })).rejects.toThrow(
+				new RangeError('Expected `maxHedges` to be a positive integer.'),
+			);
+			await expect(pRetry(async () => {}, { minTimeout: 500, maxTimeout: 100 })).rejects.toThrow(
+				new RangeError('Expected `minTimeout` to be less than or equal to `maxTimeout`.'),
+			);
+		});
+
+		it('should throw a TypeError naming the option with the wrong type', async () => {
+			await expect(pRetry(async () => {}, { retries: '3' as unknown as number })).rejects.toThrow(
+				new TypeError('Expected `retries` to be a number, got string.'),
+			);
+			await expect(pRetry(async () => {}, { randomize: 1 as unknown as boolean })).rejects.toThrow(
+				new TypeError('Expected `randomize` to be a boolean, got number.'),
+			);
+			await expect(pRetry(async () => {}, { jitter: 'random' as unknown as 'full' })).rejects.toThrow(TypeError);
+		});
+
+		it('should export the validator for use outside of pRetry', () => {
+			expect(() => validateOptions({ retries: 3, factor: 1.5, minTimeout: 0, maxTimeout: 100 })).not.toThrow();
+			expect(() => validateOptions({ factor: -2 })).toThrow(RangeError);
+		});
 	});
 
 	describe('Timeout unref option', () => {
@@ -714,5 +1716,110 @@ describe('pRetry', () => {
 			await expect(() => retried('foo', 42)).rejects.toThrow();
 			expect(lastArguments).toEqual(['foo', 42]);
 		});
+
+		it('should forward this to the wrapped function', async () => {
+			class Client {
+				public readonly calls: number[] = [];
+				public readonly fetch = makeRetriable(Client.prototype._fetch, { retries: 2, minTimeout: 0 });
+
+				private async _fetch(this: Client, id: number): Promise<string> {
+					this.calls.push(id);
+
+					if (this.calls.length < 2) {
+						throw new Error('fail');
+					}
+
+					return `item-${id}`;
+				}
+			}
+
+			const client = new Client();
+
+			await expect(client.fetch(7)).resolves.toBe('item-7');
+			expect(client.calls).toEqual([7, 7]);
+		});
+
+		it('should append the attempt context when appendContext is enabled', async () => {
+			const signals: AbortSignal[] = [];
+			const getUser = makeRetriable(
+				async (id: string, { attemptNumber, signal }: AttemptContext): Promise<string> => {
+					signals.push(signal);
+
+					if (attemptNumber === 1) {
+						return await new Promise<never>((_resolve, reject) => {
+							signal.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+						});
+					}
+
+					return `user-${id}`;
+				},
+				{ attemptTimeout: 30, minTimeout: 0 },
+				{ appendContext: true },
+			);
+
+			await expect(getUser('1')).resolves.toBe('user-1');
+			expect(signals).toHaveLength(2);
+			expect(signals[0].aborted).toBe(true);
+			expect(signals[0].reason).toBeInstanceOf(AttemptTimeoutError);
+
+			// Variants keep appending the context
+			await expect(getUser.withOptions({ attemptTimeout: 20 })('2')).resolves.toBe('user-2');
+			expect(signals).toHaveLength(4);
+			expect(signals[2].aborted).toBe(true);
+		});
+
+		it('should derive options from the call arguments', async () => {
+			let attempts = 0;
+			const request = makeRetriable(
+				async (_method: string) => {
+					attempts++;
+					throw new Error('fail');
+				},
+				method => ({ retries: method === 'POST' ? 0 : 2, minTimeout: 0 }),
+			);
+
+			await expect(request('POST')).rejects.toThrow('fail');
+			expect(attempts).toBe(1);
+
+			attempts = 0;
+			await expect(request('GET')).rejects.toThrow('fail');
+			expect(attempts).toBe(3);
+		});
+
+		it('should stop retrying when the per-call signal is aborted', async () => {
+			const controller = new AbortController();
+			const request = makeRetriable(
+				async (_url: string, _init: { signal: AbortSignal }) => {
+					controller.abort();
+					throw new Error('fail');
+				},
+				(_url, init) => ({ retries: 5, minTimeout: 0, signal: init.signal }),
+			);
+
+			await expect(request('/', { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+		});
+
+		it('should create variants with withOptions', async () => {
+			let attempts = 0;
+			const fn = async () => {
+				attempts++;
+				throw new Error('fail');
+			};
+
+			const retried = makeRetriable(fn, { retries: 1, minTimeout: 0 });
+			const patient = retried.withOptions({ retries: 3 });
+			const derived = patient.withOptions(() => ({ retries: 0 }));
+
+			await expect(patient()).rejects.toThrow('fail');
+			expect(attempts).toBe(4);
+
+			attempts = 0;
+			await expect(retried()).rejects.toThrow('fail');
+			expect(attempts).toBe(2);
+
+			attempts = 0;
+			await expect(derived()).rejects.toThrow('fail');
+			expect(attempts).toBe(1);
+		});
 	});
 });
@@ -0,0 +1,139 @@
+import { type RetryContext, type RetryPredicate, isNetworkError, isNodeNetworkError, pRetry, retryOn } from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('retryOn', () => {
+	const createContext = (error: Error): RetryContext =>
+		Object.freeze({
+			error,
+			isFatal: false,
+			attemptNumber: 1,
+			retriesLeft: 1,
+			startTime: 0,
+			elapsedTime: 0,
+			remainingTime: Number.POSITIVE_INFINITY,
+			attemptDuration: 0,
+			delay: 0,
+			previousErrors: [],
+		});
+
+	const check = async (predicate: RetryPredicate, error: Error) => predicate(createContext(error));
+	const withProperties = (properties: object) => Object.assign(new Error('fixture'), properties);
+
+	it('should match error codes', async () => {
+		const predicate = retryOn.errorCodes(['ECONNRESET', 'ETIMEDOUT']);
+
+		expect(await check(predicate, withProperties({ code: 'ECONNRESET' }))).toBe(true);
+		expect(await check(predicate, withProperties({ code: 'ENOENT' }))).toBe(false);
+		expect(await check(predicate, new Error('fixture'))).toBe(false);
+	});
+
+	it('should match HTTP statuses and status classes', async () => {
+		const predicate = retryOn.httpStatus(408, 429, '5xx');
+
+		expect(await check(predicate, withProperties({ status: 429 }))).toBe(true);
+		expect(await check(predicate, withProperties({ statusCode: 503 }))).toBe(true);
+		expect(await check(predicate, withProperties({ response: { status: 500 } }))).toBe(true);
+		expect(await check(predicate, withProperties({ status: 404 }))).toBe(false);
+		expect(await check(predicate, new Error('fixture'))).toBe(false);
+	});
+
+	it('should match error classes', async () => {
+		class CustomError extends Error {}
+
+		const predicate = retryOn.instanceOf(CustomError, RangeError);
+
+		expect(await check(predicate, new CustomError())).toBe(true);
+		expect(await check(predicate, new RangeError())).toBe(true);
+		expect(await check(predicate, new Error('fixture'))).toBe(false);
+	});
+
+	it('should match network errors', async () => {
+		const predicate = retryOn.networkErrors();
+
+		expect(isNetworkError(new TypeError('fetch failed'))).toBe(true);
+		expect(await check(predicate, new TypeError('fetch failed'))).toBe(true);
+		expect(await check(predicate, new TypeError('not a function'))).toBe(false);
+		expect(await check(predicate, withProperties({ code: 'ECONNREFUSED' }))).toBe(true);
+	});
+
+	it('should compose predicates with and, or and not', async () => {
+		const is5xx = retryOn.httpStatus('5xx');
+		const is503 = retryOn.httpStatus(503);
+		const predicate = retryOn.or(retryOn.and(is5xx, retryOn.not(is503)), retryOn.errorCodes(['ETIMEDOUT']));
+
+		expect(await check(predicate, withProperties({ status: 500 }))).toBe(true);
+		expect(await check(predicate, withProperties({ status: 503 }))).toBe(false);
+		expect(await check(predicate, withProperties({ code: 'ETIMEDOUT' }))).toBe(true);
+		expect(await check(predicate, withProperties({ status: 400 }))).toBe(false);
+	});
+
+	it('should be usable as shouldRetry', async () => {
+		let attempts = 0;
+		const notFound = withProperties({ status: 404 });
+
+		await expect(
+			pRetry(
+				async () => {
+					attempts++;
+					throw attempts < 3 ? withProperties({ status: 503 }) : notFound;
+				},
+				{ minTimeout: 0, shouldRetry: retryOn.httpStatus('5xx') },
+			),
+		).rejects.toBe(notFound);
+
+		expect(attempts).toBe(3);
+	});
+});
+
+describe('isNodeNetworkError', () => {
+	const withCode = (code: string, options?: ErrorOptions) => Object.assign(new Error(code, options), { code });
+
+	it('should recognize transient system and undici error codes', () => {
+		expect(isNodeNetworkError(withCode('ECONNRESET'))).toBe(true);
+		expect(isNodeNetworkError(withCode('EAI_AGAIN'))).toBe(true);
+		expect(isNodeNetworkError(withCode('UND_ERR_SOCKET'))).toBe(true);
+		expect(isNodeNetworkError(withCode('ENOENT'))).toBe(false);
+		expect(isNodeNetworkError(new Error('fixture'))).toBe(false);
+		expect(isNodeNetworkError('ECONNRESET')).toBe(false);
+	});
+
+	it('should walk the cause chain', () => {
+		const error = new TypeError('fetch failed', {
+			cause: new Error('wrapper', { cause: withCode('ECONNREFUSED') }),
+		});
+
+		expect(isNodeNetworkError(error)).toBe(true);
+	});
+
+	it('should search AggregateError errors', () => {
+		const error = new AggregateError([new Error('fixture'), withCode('ETIMEDOUT')]);
+
+		expect(isNodeNetworkError(error)).toBe(true);
+	});
+
+	it('should not loop on circular causes', () => {
+		const error = new Error('fixture') as Error & { cause?: unknown };
+		error.cause = error;
+
+		expect(isNodeNetworkError(error)).toBe(false);
+	});
+
+	it('should be retried by pRetry by default', async () => {
+		let attempts = 0;
+
+		const result = await pRetry(
+			async () => {
+				attempts++;
+
+				if (attempts < 3) {
+					throw new TypeError('socket error', { cause: withCode('UND_ERR_SOCKET') });
+				}
+
+				return attempts;
+			},
+			{ minTimeout: 0 },
+		);
+
+		expect(result).toBe(3);
+	});
+});
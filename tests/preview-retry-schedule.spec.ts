@@ -0,0 +1,94 @@
+import { constantBackoff, previewRetrySchedule, pRetry, RetryPolicy, VirtualClock } from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('previewRetrySchedule', () => {
+	it('should compute the exponential schedule with the default options', () => {
+		const schedule = previewRetrySchedule({ retries: 4 });
+
+		expect(schedule.entries.map(entry => entry.maxDelay)).toEqual([1000, 2000, 4000, 8000]);
+		expect(schedule.entries.map(entry => entry.maxElapsedTime)).toEqual([1000, 3000, 7000, 15_000]);
+		expect(schedule).toMatchObject({
+			totalAttempts: 5,
+			minTotalTime: 15_000,
+			maxTotalTime: 15_000,
+			stopReason: 'retries-exhausted',
+		});
+	});
+
+	it('should report where maxTimeout and maxRetryTime clamp the delays', () => {
+		const schedule = previewRetrySchedule({
+			retries: 10,
+			minTimeout: 1000,
+			maxTimeout: 4000,
+			maxRetryTime: 12_000,
+		});
+
+		expect(schedule.entries.map(entry => [entry.maxDelay, entry.clampedBy])).toEqual([
+			[1000, undefined],
+			[2000, undefined],
+			[4000, 'maxTimeout'],
+			[4000, 'maxTimeout'],
+			[1000, 'maxRetryTime'],
+		]);
+		expect(schedule).toMatchObject({ totalAttempts: 6, maxTotalTime: 12_000, stopReason: 'max-retry-time' });
+	});
+
+	it('should return bounds for jittered delays', () => {
+		const full = previewRetrySchedule({ retries: 2, minTimeout: 100, jitter: 'full' });
+		const equal = previewRetrySchedule({ retries: 2, minTimeout: 100, jitter: 'equal' });
+		const randomized = previewRetrySchedule({ retries: 2, minTimeout: 100, randomize: true });
+
+		expect(full.entries.map(entry => [entry.minDelay, entry.maxDelay])).toEqual([
+			[0, 100],
+			[0, 200],
+		]);
+		expect(equal.entries.map(entry => [entry.minDelay, entry.maxDelay])).toEqual([
+			[50, 100],
+			[100, 200],
+		]);
+		expect(randomized.entries.map(entry => [entry.minDelay, entry.maxDelay])).toEqual([
+			[100, 200],
+			[200, 400],
+		]);
+		expect([full.minTotalTime, full.maxTotalTime]).toEqual([0, 300]);
+	});
+
+	it('should include the assumed attempt duration', () => {
+		const schedule = previewRetrySchedule(new RetryPolicy({ retries: 2, backoff: constantBackoff(100) }), {
+			attemptDuration: 50,
+		});
+
+		expect(schedule.entries.map(entry => entry.maxElapsedTime)).toEqual([150, 300]);
+		expect(schedule.maxTotalTime).toBe(350);
+	});
+
+	it('should truncate unbounded schedules', () => {
+		const schedule = previewRetrySchedule(
+			{ retries: Number.POSITIVE_INFINITY, minTimeout: 10, factor: 1 },
+			{ maxEntries: 3 },
+		);
+
+		expect(schedule.entries).toHaveLength(3);
+		expect(schedule.stopReason).toBeUndefined();
+	});
+
+	it('should match the delays used at runtime', async () => {
+		const options = { retries: 8, minTimeout: 300, factor: 3, maxTimeout: 5000, maxRetryTime: 20_000 };
+		const clock = new VirtualClock();
+
+		await expect(
+			pRetry(
+				async () => {
+					throw new Error('fixture');
+				},
+				{ ...options, scheduler: clock },
+			),
+		).rejects.toThrow('fixture');
+
+		expect(previewRetrySchedule(options).entries.map(entry => entry.maxDelay)).toEqual(clock.delays);
+	});
+
+	it('should validate the options', () => {
+		expect(() => previewRetrySchedule({ factor: 0 })).toThrow(RangeError);
+	});
+});
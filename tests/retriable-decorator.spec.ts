@@ -0,0 +1,75 @@
+import { type Options, Retriable, RetryPolicy } from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('Retriable', () => {
+	class Service {
+		public attempts = 0;
+
+		constructor(
+			private readonly _failures: number,
+			public retryOptions: Options = { retries: 0 },
+		) {}
+
+		@Retriable({ retries: 3, minTimeout: 0 })
+		public async fetch(id: number): Promise<string> {
+			return this._attempt(`item-${id}`);
+		}
+
+		@Retriable(new RetryPolicy({ retries: 3, minTimeout: 0 }))
+		public compute(value: number): number | Promise<number> {
+			return this._attempt(value * 2);
+		}
+
+		@Retriable((service: Service, [id]: [number]) => ({ ...service.retryOptions, retries: id === 0 ? 0 : 5 }))
+		public async fetchConfigured(id: number): Promise<number> {
+			return this._attempt(id);
+		}
+
+		@Retriable((service: Service) => service.retryOptions)
+		public async fetchFromConfig(): Promise<string> {
+			return this._attempt('ok');
+		}
+
+		private _attempt<T>(value: T): T {
+			this.attempts++;
+
+			if (this.attempts <= this._failures) {
+				throw new Error(`failure ${this.attempts}`);
+			}
+
+			return value;
+		}
+	}
+
+	it('should retry async methods and preserve this', async () => {
+		const service = new Service(2);
+
+		await expect(service.fetch(1)).resolves.toBe('item-1');
+		expect(service.attempts).toBe(3);
+	});
+
+	it('should retry sync methods', async () => {
+		const service = new Service(1);
+
+		await expect(service.compute(21)).resolves.toBe(42);
+		expect(service.attempts).toBe(2);
+	});
+
+	it('should resolve options from the instance and the arguments at call time', async () => {
+		const service = new Service(1, { minTimeout: 0 });
+
+		await expect(service.fetchConfigured(0)).rejects.toThrow('failure 1');
+		await expect(service.fetchConfigured(7)).resolves.toBe(7);
+		expect(service.attempts).toBe(2);
+	});
+
+	it('should pick up configuration changes made after the instance was created', async () => {
+		const service = new Service(2, { retries: 0 });
+
+		await expect(service.fetchFromConfig()).rejects.toThrow('failure 1');
+
+		service.retryOptions = { retries: 1, minTimeout: 0 };
+
+		await expect(service.fetchFromConfig()).resolves.toBe('ok');
+	});
+});
@@ -0,0 +1,40 @@
+import { getRetryAfterFromHeaders, parseRateLimitReset, parseRetryAfter } from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('Retry hints', () => {
+	const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+	describe('parseRetryAfter', () => {
+		it('should parse delay-seconds', () => {
+			expect(parseRetryAfter('120')).toBe(120_000);
+			expect(parseRetryAfter(' 0 ')).toBe(0);
+		});
+
+		it('should parse HTTP dates relative to now', () => {
+			expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30_000);
+			expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+		});
+
+		it('should return undefined for missing or invalid values', () => {
+			expect(parseRetryAfter(null)).toBeUndefined();
+			expect(parseRetryAfter('')).toBeUndefined();
+			expect(parseRetryAfter('soon')).toBeUndefined();
+		});
+	});
+
+	describe('parseRateLimitReset', () => {
+		it('should parse seconds until reset', () => {
+			expect(parseRateLimitReset('15')).toBe(15_000);
+			expect(parseRateLimitReset('-1')).toBeUndefined();
+			expect(parseRateLimitReset(undefined)).toBeUndefined();
+		});
+	});
+
+	describe('getRetryAfterFromHeaders', () => {
+		it('should prefer Retry-After over RateLimit-Reset', () => {
+			expect(getRetryAfterFromHeaders(new Headers({ 'Retry-After': '2', 'RateLimit-Reset': '5' }))).toBe(2000);
+			expect(getRetryAfterFromHeaders(new Headers({ 'RateLimit-Reset': '5' }))).toBe(5000);
+			expect(getRetryAfterFromHeaders(new Headers())).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,106 @@
+import { AbortError, RatioRetryBudget, TokenBucketRetryBudget, getGiveUpReason, pRetry } from '../src';
+import { describe, expect, it } from '@jest/globals';
+import { setTimeout as delay } from 'timers/promises';
+
+describe('Retry budgets', () => {
+	const fixtureError = new Error('fixture');
+
+	describe('RatioRetryBudget', () => {
+		it('should allow minRetries plus a ratio of successes', () => {
+			const budget = new RatioRetryBudget({ ratio: 0.5, minRetries: 1 });
+
+			expect(budget.tryWithdraw()).toBe(true);
+			expect(budget.tryWithdraw()).toBe(false);
+
+			budget.recordSuccess();
+			budget.recordSuccess();
+
+			expect(budget.tryWithdraw()).toBe(true);
+			expect(budget.tryWithdraw()).toBe(false);
+		});
+
+		it('should forget successes and retries outside the window', async () => {
+			const budget = new RatioRetryBudget({ ratio: 0, minRetries: 1, window: 20 });
+
+			expect(budget.tryWithdraw()).toBe(true);
+			expect(budget.tryWithdraw()).toBe(false);
+
+			await delay(30);
+
+			expect(budget.tryWithdraw()).toBe(true);
+		});
+	});
+
+	describe('TokenBucketRetryBudget', () => {
+		it('should take one token per retry and refill over time', async () => {
+			const budget = new TokenBucketRetryBudget({ capacity: 2, refillRate: 100 });
+
+			expect(budget.tryWithdraw()).toBe(true);
+			expect(budget.tryWithdraw()).toBe(true);
+			expect(budget.tryWithdraw()).toBe(false);
+
+			await delay(30);
+
+			expect(budget.tokens).toBeGreaterThanOrEqual(2);
+			expect(budget.tryWithdraw()).toBe(true);
+		});
+	});
+
+	describe('retryBudget option', () => {
+		it('should stop retrying when the shared budget is exhausted', async () => {
+			const retryBudget = new TokenBucketRetryBudget({ capacity: 3, refillRate: 0 });
+			let attempts = 0;
+
+			const run = async () =>
+				pRetry(
+					async () => {
+						attempts++;
+						throw fixtureError;
+					},
+					{ retries: 5, minTimeout: 0, retryBudget },
+				);
+
+			await expect(run()).rejects.toBe(fixtureError);
+			expect(attempts).toBe(4);
+			expect(getGiveUpReason(fixtureError)).toBe('retry-budget-exhausted');
+
+			await expect(run()).rejects.toBe(fixtureError);
+			expect(attempts).toBe(5);
+		});
+
+		it('should not withdraw from the budget when the caller aborts an attempt', async () => {
+			const retryBudget = new TokenBucketRetryBudget({ capacity: 5, refillRate: 0 });
+			const controller = new AbortController();
+			let isRetryScheduled = false;
+
+			setTimeout(() => controller.abort(fixtureError), 10);
+
+			await expect(
+				pRetry(
+					async (_attemptNumber, { signal }) =>
+						new Promise((_resolve, reject) => {
+							signal.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+						}),
+					{
+						retryBudget,
+						signal: controller.signal,
+						onRetryScheduled: () => {
+							isRetryScheduled = true;
+						},
+					},
+				),
+			).rejects.toBeInstanceOf(AbortError);
+
+			expect(retryBudget.tokens).toBe(5);
+			expect(isRetryScheduled).toBe(false);
+		});
+
+		it('should report successes to the budget', async () => {
+			const retryBudget = new RatioRetryBudget({ ratio: 1, minRetries: 0 });
+
+			await expect(pRetry(() => 'ok', { retryBudget })).resolves.toBe('ok');
+			expect(retryBudget.tryWithdraw()).toBe(true);
+			expect(retryBudget.tryWithdraw()).toBe(false);
+		});
+	});
+});
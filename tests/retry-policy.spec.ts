@@ -0,0 +1,90 @@
+import { makeRetriable, pRetry, RetryPolicy } from '../src';
+import { describe, expect, it } from '@jest/globals';
+
+describe('RetryPolicy', () => {
+	const fixtureError = new Error('fixture');
+
+	it('should extend options with `with` without mutating the original policy', () => {
+		const policy = new RetryPolicy({ retries: 5, minTimeout: 100 });
+		const extended = policy.with({ retries: 2, jitter: 'full' });
+
+		expect(policy.options).toEqual({ retries: 5, minTimeout: 100 });
+		expect(extended.options).toEqual({ retries: 2, minTimeout: 100, jitter: 'full' });
+		expect(Object.isFrozen(extended.options)).toBe(true);
+	});
+
+	it('should merge policies and options with later sources taking precedence', () => {
+		const policy = RetryPolicy.merge(
+			new RetryPolicy({ retries: 5, factor: 3 }),
+			{ retries: 1, minTimeout: undefined },
+			new RetryPolicy({ minTimeout: 10 }),
+		);
+
+		expect(policy.options).toEqual({ retries: 1, factor: 3, minTimeout: 10 });
+	});
+
+	it('should validate numeric options up front', () => {
+		expect(() => new RetryPolicy({ retries: -1 })).toThrow('Expected `retries` to be a non-negative number.');
+		expect(() => new RetryPolicy({ minTimeout: Number.NaN })).toThrow(
+			'Expected `minTimeout` to be a non-negative number.',
+		);
+		expect(() => new RetryPolicy().with({ attemptTimeout: -5 })).toThrow(RangeError);
+	});
+
+	it('should round-trip through JSON without functions', () => {
+		const policy = new RetryPolicy({
+			retries: 3,
+			minTimeout: 50,
+			maxTimeout: Number.POSITIVE_INFINITY,
+			jitter: 'equal',
+			aggregateErrors: true,
+			onFailedAttempt: () => {},
+			signal: new AbortController().signal,
+		});
+
+		const json = JSON.stringify(policy);
+
+		expect(JSON.parse(json)).toEqual({ retries: 3, minTimeout: 50, jitter: 'equal', aggregateErrors: true });
+		expect(RetryPolicy.fromJson(json).options).toEqual(policy.toJSON());
+	});
+
+	it('should ignore unknown properties and reject invalid ones in fromJson', () => {
+		expect(RetryPolicy.fromJson({ retries: 2, url: 'https://example.com' } as object).options).toEqual({
+			retries: 2,
+		});
+		expect(() => RetryPolicy.fromJson('{"retries":"3"}')).toThrow('Expected `retries` to be a number, got string.');
+		expect(() => RetryPolicy.fromJson('{"unref":"yes"}')).toThrow('Expected `unref` to be a boolean, got string.');
+		expect(() => RetryPolicy.fromJson('{"jitter":"random"}')).toThrow(TypeError);
+		expect(() => RetryPolicy.fromJson('null')).toThrow('Expected the retry policy to be an object.');
+	});
+
+	it('should be accepted by pRetry and makeRetriable', async () => {
+		const policy = new RetryPolicy({ retries: 2, minTimeout: 0 });
+		let attempts = 0;
+
+		await expect(
+			pRetry(() => {
+				attempts++;
+				throw fixtureError;
+			}, policy),
+		).rejects.toBe(fixtureError);
+		expect(attempts).toBe(3);
+
+		let calls = 0;
+		const retried = makeRetriable(
+			async (value: number) => {
+				calls++;
+
+				if (calls < 2) {
+					throw fixtureError;
+				}
+
+				return value * 2;
+			},
+			policy.with({ retries: 1 }),
+		);
+
+		await expect(retried(21)).resolves.toBe(42);
+		expect(calls).toBe(2);
+	});
+});
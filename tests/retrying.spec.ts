@@ -0,0 +1,171 @@
+import {
+	AbortError,
+	AttemptTimeoutError,
+	CircuitBreaker,
+	type GiveUpEvent,
+	getGiveUpReason,
+	type RetryAttempt,
+	retrying,
+	type SuccessEvent,
+	VirtualClock,
+} from '../src';
+import { describe, expect, it, jest } from '@jest/globals';
+
+describe('retrying', () => {
+	const fixtureError = new Error('fixture');
+
+	it('should yield attempts until one succeeds', async () => {
+		const clock = new VirtualClock();
+		const attempts: RetryAttempt[] = [];
+
+		for await (const attempt of retrying({ retries: 5, minTimeout: 100, scheduler: clock })) {
+			attempts.push(attempt);
+
+			if (attempt.attemptNumber < 3) {
+				attempt.fail(fixtureError);
+			} else {
+				attempt.succeed();
+			}
+		}
+
+		expect(attempts.map(attempt => [attempt.attemptNumber, attempt.retriesLeft])).toEqual([
+			[1, 5],
+			[2, 4],
+			[3, 3],
+		]);
+		expect(attempts[0].retryContext).toBeUndefined();
+		expect(attempts[2].retryContext).toMatchObject({ error: fixtureError, attemptNumber: 2, delay: 200 });
+		expect(clock.delays).toEqual([100, 200]);
+	});
+
+	it('should throw the error of the onAttemptStart hook without yielding the attempt', async () => {
+		const clock = new VirtualClock();
+		let count = 0;
+
+		const run = async () => {
+			for await (const attempt of retrying({
+				scheduler: clock,
+				onAttemptStart: () => {
+					throw fixtureError;
+				},
+			})) {
+				count++;
+				attempt.succeed();
+			}
+		};
+
+		await expect(run()).rejects.toBe(fixtureError);
+		expect(count).toBe(0);
+		expect(getGiveUpReason(fixtureError)).toBe('hook-error');
+		expect(clock.delays).toEqual([]);
+	});
+
+	it('should throw the final error when retries are exhausted', async () => {
+		const onGiveUp = jest.fn<(event: GiveUpEvent) => void>();
+		let count = 0;
+
+		const run = async () => {
+			for await (const attempt of retrying({ retries: 2, scheduler: new VirtualClock(), onGiveUp })) {
+				count++;
+				attempt.fail(fixtureError);
+			}
+		};
+
+		await expect(run()).rejects.toBe(fixtureError);
+		expect(count).toBe(3);
+		expect(getGiveUpReason(fixtureError)).toBe('retries-exhausted');
+		expect(onGiveUp).toHaveBeenCalledTimes(1);
+	});
+
+	it('should respect shouldRetry and non-retryable errors', async () => {
+		const run = async (error: Error) => {
+			for await (const attempt of retrying({
+				retries: 5,
+				scheduler: new VirtualClock(),
+				shouldRetry: ({ attemptNumber }) => attemptNumber < 2,
+			})) {
+				attempt.fail(error);
+			}
+		};
+
+		const typeError = new TypeError('fixture');
+
+		await expect(run(fixtureError)).rejects.toBe(fixtureError);
+		expect(getGiveUpReason(fixtureError)).toBe('should-retry');
+		await expect(run(typeError)).rejects.toBe(typeError);
+		expect(getGiveUpReason(typeError)).toBe('non-retryable');
+	});
+
+	it('should call onSuccess when breaking out after succeed', async () => {
+		const onSuccess = jest.fn<(event: SuccessEvent) => void>();
+
+		for await (const attempt of retrying({ onSuccess })) {
+			attempt.succeed();
+			break;
+		}
+
+		expect(onSuccess).toHaveBeenCalledWith({ attemptNumber: 1, duration: expect.any(Number) });
+	});
+
+	it('should release the circuit breaker probe when the attempt is abandoned', async () => {
+		const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 0 });
+		circuitBreaker.recordFailure();
+
+		for await (const _attempt of retrying({ circuitBreaker })) {
+			expect(circuitBreaker.tryAcquire()).toBe(false);
+			break;
+		}
+
+		expect(circuitBreaker.tryAcquire()).toBe(true);
+	});
+
+	it('should throw if an attempt is not settled', async () => {
+		const run = async () => {
+			for await (const _attempt of retrying()) {
+				// Neither fail() nor succeed() is called
+			}
+		};
+
+		await expect(run()).rejects.toThrow(
+			'Expected `attempt.fail()` or `attempt.succeed()` to be called before the next attempt.',
+		);
+	});
+
+	it('should throw if an attempt is settled twice', async () => {
+		for await (const attempt of retrying()) {
+			attempt.succeed();
+			expect(() => attempt.fail(fixtureError)).toThrow('The attempt has already been settled.');
+		}
+	});
+
+	it('should stop with an AbortError when the signal is aborted', async () => {
+		const controller = new AbortController();
+		let count = 0;
+
+		const run = async () => {
+			for await (const attempt of retrying({ signal: controller.signal, scheduler: new VirtualClock() })) {
+				count++;
+				controller.abort();
+				attempt.fail(fixtureError);
+			}
+		};
+
+		await expect(run()).rejects.toBeInstanceOf(AbortError);
+		expect(count).toBe(1);
+	});
+
+	it('should abort the attempt signal on attemptTimeout', async () => {
+		const reasons: unknown[] = [];
+
+		const run = async () => {
+			for await (const attempt of retrying({ retries: 1, minTimeout: 0, attemptTimeout: 10 })) {
+				await new Promise(resolve => attempt.signal.addEventListener('abort', resolve, { once: true }));
+				reasons.push(attempt.signal.reason);
+				attempt.fail(attempt.signal.reason);
+			}
+		};
+
+		await expect(run()).rejects.toBeInstanceOf(AttemptTimeoutError);
+		expect(reasons).toHaveLength(2);
+	});
+});
@@ -0,0 +1,79 @@
+import { AbortError, pRetry, type RetryContext, type Scheduler, VirtualClock } from '../src';
+import { describe, expect, it, jest } from '@jest/globals';
+
+describe('VirtualClock', () => {
+	const fixtureError = new Error('fixture');
+	const alwaysFail = async () => {
+		throw fixtureError;
+	};
+
+	it('should run a full retry sequence instantly and record the delays', async () => {
+		const clock = new VirtualClock();
+		const realStart = Date.now();
+
+		await expect(pRetry(alwaysFail, { retries: 4, minTimeout: 10_000, scheduler: clock })).rejects.toBe(
+			fixtureError,
+		);
+
+		expect(clock.delays).toEqual([10_000, 20_000, 40_000, 80_000]);
+		expect(clock.now()).toBe(150_000);
+		expect(Date.now() - realStart).toBeLessThan(1000);
+	});
+
+	it('should measure elapsed time with the virtual clock', async () => {
+		const clock = new VirtualClock(1_000_000);
+		const contexts: RetryContext[] = [];
+
+		await expect(
+			pRetry(
+				async () => {
+					clock.advance(500);
+					throw fixtureError;
+				},
+				{
+					retries: 10,
+					minTimeout: 1000,
+					factor: 1,
+					maxRetryTime: 4000,
+					scheduler: clock,
+					onFailedAttempt: context => {
+						contexts.push(context);
+					},
+				},
+			),
+		).rejects.toBe(fixtureError);
+
+		expect(contexts[0]).toMatchObject({ startTime: 1_000_000, elapsedTime: 500, attemptDuration: 500 });
+		expect(contexts.map(context => context.elapsedTime)).toEqual([500, 2000, 3500, 4500]);
+		expect(clock.delays).toEqual([1000, 1000, 500]);
+	});
+
+	it('should reject with an AbortError when the signal is aborted', async () => {
+		const clock = new VirtualClock();
+		const controller = new AbortController();
+
+		await expect(
+			pRetry(alwaysFail, {
+				retries: 3,
+				scheduler: clock,
+				onRetryScheduled: () => controller.abort(),
+				signal: controller.signal,
+			}),
+		).rejects.toBeInstanceOf(AbortError);
+
+		expect(clock.delays).toEqual([]);
+	});
+
+	it('should accept a custom scheduler', async () => {
+		const scheduler: Scheduler = {
+			now: () => 0,
+			sleep: jest.fn(async () => {}),
+		};
+
+		await expect(pRetry(alwaysFail, { retries: 2, minTimeout: 5, scheduler })).rejects.toBe(fixtureError);
+
+		expect(scheduler.sleep).toHaveBeenCalledTimes(2);
+		expect(scheduler.sleep).toHaveBeenNthCalledWith(1, 5, undefined);
+		expect(scheduler.sleep).toHaveBeenNthCalledWith(2, 10, undefined);
+	});
+});